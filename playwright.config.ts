@@ -11,8 +11,10 @@ export default defineConfig({
   // - In GitHub Actions: env: { PLAYWRIGHT_RETRIES: 0 }
   retries: process.env.PLAYWRIGHT_RETRIES ? parseInt(process.env.PLAYWRIGHT_RETRIES) : (process.env.CI ? 2 : 0),
   workers: process.env.CI ? 1 : undefined,
-  reporter: 'html',
+  // Order funnel step timings, p50/p95 per project over recent runs (see tests/helpers/FunnelTiming.ts)
+  reporter: [['html'], ['./tests/helpers/FunnelReporter.ts']],
   globalSetup: require.resolve('./tests/setup.ts'),
+  globalTeardown: require.resolve('./tests/teardown.ts'),
   timeout: 120000, // 2 minutes
   use: {
     baseURL: 'https://app.mystories.com',
@@ -0,0 +1,52 @@
+/**
+ * Navigation Resilience Expectations
+ *
+ * Where a user should end up after each browser navigation at each point of
+ * the order funnel, and what should happen to the "Your details" values.
+ * Used by NavigationHarness in navigation.spec.ts, for self and gift orders.
+ *
+ * Points: on the order type page, with the details form filled in but not
+ * submitted, on the Stripe checkout, and on the success page after paying.
+ * 'forward' is Back then Forward; 'new-tab' opens the current URL in a new
+ * tab of the same browser session. After paying, the checkout must never be
+ * offered again (no duplicate order), whatever the navigation.
+ */
+
+export type FunnelPoint = 'order-type' | 'details' | 'payment' | 'success';
+export type NavigationAction = 'back' | 'forward' | 'reload' | 'new-tab';
+export type Landing = 'home' | 'order-type' | 'details' | 'payment' | 'success' | 'dashboard';
+
+export interface NavigationExpectation {
+  lands: Landing[];              // Acceptable pages, any of them
+  form?: 'kept' | 'cleared';     // Details values, when landing on the details form
+}
+
+export const FUNNEL_POINTS: FunnelPoint[] = ['order-type', 'details', 'payment', 'success'];
+export const NAVIGATION_ACTIONS: NavigationAction[] = ['back', 'forward', 'reload', 'new-tab'];
+
+export const NAVIGATION_EXPECTATIONS: Record<FunnelPoint, Record<NavigationAction, NavigationExpectation>> = {
+  'order-type': {
+    back: { lands: ['home'] },
+    forward: { lands: ['order-type'] },
+    reload: { lands: ['order-type'] },
+    'new-tab': { lands: ['order-type'] }
+  },
+  details: {
+    back: { lands: ['order-type'] },
+    forward: { lands: ['details'], form: 'kept' },
+    reload: { lands: ['details'], form: 'cleared' },
+    'new-tab': { lands: ['details', 'order-type'], form: 'cleared' }
+  },
+  payment: {
+    back: { lands: ['details'], form: 'kept' },  // Back on the Stripe page returns to the filled in form
+    forward: { lands: ['payment'] },
+    reload: { lands: ['payment'] },
+    'new-tab': { lands: ['payment'] }
+  },
+  success: {
+    back: { lands: ['success', 'order-type'] },  // Not the checkout of the paid order
+    forward: { lands: ['success'] },
+    reload: { lands: ['success'] },
+    'new-tab': { lands: ['success', 'dashboard'] }
+  }
+};
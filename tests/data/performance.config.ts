@@ -194,3 +194,13 @@ export const MOBILE_PERFORMANCE_THRESHOLDS: PerformanceThresholds = {
     }
   }
 };
+
+/**
+ * Order funnel step timings (see FunnelTiming and FunnelReporter)
+ * Every run's step durations are kept, and the report covers the latest runs
+ */
+export const FUNNEL_TIMING = {
+  HISTORY_FILE: 'funnel-timings.jsonl',        // In the test state directory
+  HISTORY_RUNS: 30,                            // Runs the p50/p95 are taken over
+  REPORT_FILE: 'test-results/funnel-report.md'
+};
@@ -0,0 +1,91 @@
+/**
+ * Boundary and Internationalized Personas
+ *
+ * Edge-case names and gift messages for checking that user supplied text
+ * survives the order form, the dashboard and the emails unchanged:
+ * - Diacritics, CJK, Hebrew and Arabic (right-to-left) scripts
+ * - Apostrophes and hyphens
+ * - Single-character names
+ * - Names at the SECURITY_CONFIG name length limit
+ * - Emoji in a gift message at the message length limit
+ *
+ * Used by personas.spec.ts through TestDataGenerator's `persona` option.
+ */
+
+import { SECURITY_CONFIG } from './security.config';
+
+export interface Persona {
+  id: string;            // Used in test titles
+  description: string;
+  firstName: string;
+  lastName: string;
+  giftMessage?: string;  // Gift orders only
+}
+
+const { NAME, MESSAGE } = SECURITY_CONFIG.XSS_TEST_DATA.MAX_LENGTH;
+
+/**
+ * Repeat a pattern up to exactly `length` UTF-16 code units (what input maxlength counts),
+ * without splitting an emoji in half
+ */
+function fillTo(pattern: string, length: number): string {
+  let text = '';
+  const characters = Array.from(pattern);
+  for (let i = 0; text.length < length; i++) {
+    const next = characters[i % characters.length];
+    text += text.length + next.length <= length ? next : '.';
+  }
+  return text;
+}
+
+export const PERSONAS: Persona[] = [
+  {
+    id: 'diacritics',
+    description: 'Latin letters with diacritics',
+    firstName: 'Zoë',
+    lastName: 'Müller-Lefèvre'
+  },
+  {
+    id: 'cjk',
+    description: 'Japanese name',
+    firstName: '美咲',
+    lastName: '山田'
+  },
+  {
+    id: 'hebrew',
+    description: 'Right-to-left Hebrew name',
+    firstName: 'נועה',
+    lastName: 'כהן'
+  },
+  {
+    id: 'arabic',
+    description: 'Right-to-left Arabic name',
+    firstName: 'فاطمة',
+    lastName: 'الحسيني'
+  },
+  {
+    id: 'apostrophe-hyphen',
+    description: 'Apostrophes and hyphens',
+    firstName: "D'Arcy",
+    lastName: "O'Brien-Smith"
+  },
+  {
+    id: 'single-character',
+    description: 'Single-character names',
+    firstName: 'J',
+    lastName: 'X'
+  },
+  {
+    id: 'max-length',
+    description: `Names at the ${NAME} character limit`,
+    firstName: fillTo('Maximiliana', NAME),
+    lastName: fillTo('Featherstonehaugh-', NAME)
+  },
+  {
+    id: 'emoji-message',
+    description: `Emoji in a gift message at the ${MESSAGE} character limit`,
+    firstName: 'Emma',
+    lastName: 'Stone',
+    giftMessage: fillTo('Happy birthday! 🎂🎉 Can’t wait to read your stories 📖❤️ ', MESSAGE)
+  }
+];
@@ -2,6 +2,11 @@
  * Configuration file for pricing and related business rules
  */
 
+import type { LocationSnapshot } from '../helpers/LocationMatrix';
+import LOCATIONS_JSON from './locations.snapshot.json';
+
+const LOCATIONS: LocationSnapshot = LOCATIONS_JSON;
+
 export const PRICES = {
   // Base price for a single book subscription
   MARKET_PRICE: '99.00',
@@ -41,12 +46,20 @@ export const PRICES = {
  * 3. The checkbox text explains this is an annual subscription
  * 4. It also mentions they can cancel anytime from account settings
  * 5. Reminds them they'll get email reminders before renewal
+ * 
+ * Read from the location snapshot (locations.snapshot.json), which locations.spec.ts
+ * checks against the live country and state dropdowns, so a state that starts
+ * showing the checkbox fails the matrix test until the snapshot is updated.
+ * Until the snapshot has been captured from the live form (it is empty until then),
+ * the hand-kept list is used.
  */
-export const STATES_REQUIRING_ACKNOWLEDGMENT = [
-  'California',  // Required by CA state law
-  'New York',    // Required by NY state law
-  'Florida'      // Required by FL state law
-];
+export const STATES_REQUIRING_ACKNOWLEDGMENT: string[] = LOCATIONS.capturedAt
+  ? LOCATIONS.states.filter(state => state.acknowledgment).map(state => state.name)
+  : [
+    'California',  // Required by CA state law
+    'New York',    // Required by NY state law
+    'Florida'      // Required by FL state law
+  ];
 
 /**
  * Calculates the total price for a given number of book copies
@@ -4,6 +4,7 @@
  * This configuration file defines various security test parameters including:
  * - XSS (Cross-Site Scripting) test payloads
  * - Input validation limits
+ * - Email header injection payloads
  * - Payment security test data
  * - Privacy and cookie consent settings
  * 
@@ -71,6 +72,50 @@ export const SECURITY_CONFIG = {
       MESSAGE: 1000,
     },
   },
+  /**
+   * Email Header Injection Test Configuration
+   * Names that the app interpolates into email subjects
+   * (SUBJECTS.GIFT_RECEIVE, SUBJECTS.WEEKLY_QUESTION)
+   */
+  HEADER_INJECTION_TEST_DATA: {
+    /**
+     * Browsers strip line breaks from text inputs, so a raw CR LF is typed as
+     * this marker and written into the submitted request instead
+     */
+    CRLF_MARKER: '__CRLF__',
+    /**
+     * Headers a payload tries to add; none may show up in the delivered email
+     */
+    INJECTED_HEADERS: ['X-Injected', 'Bcc', 'Cc'],
+    PAYLOADS: {
+      /**
+       * Line breaks that would end the Subject header and start a new one
+       */
+      CRLF: [
+        'Jane__CRLF__X-Injected: crlf',
+        'Jane__CRLF__Bcc: injected@example.com',
+        'Jane%0d%0aX-Injected: urlencoded',
+        'Jane\u2028X-Injected: line-separator',
+        'Jane\u0085X-Injected: next-line',
+      ],
+      /**
+       * RFC 2047 encoded words that decode to line breaks if passed through verbatim
+       */
+      ENCODED_WORD: [
+        '=?UTF-8?B?SmFuZQ0KWC1JbmplY3RlZDogYjY0?=',
+        '=?UTF-8?Q?Jane=0D=0AX-Injected:_qp?=',
+        'Jane =?ISO-8859-1?Q?=0AX-Injected:_latin1?=',
+      ],
+      /**
+       * Legitimate names that must arrive intact: right-to-left scripts and bidi controls
+       */
+      RTL: [
+        'مريم',
+        'שרה',
+        'Jane\u202Egnp.exe',
+      ],
+    },
+  },
   /**
    * Payment Security Test Configuration
    * Defines test cases for payment validation and price tampering prevention
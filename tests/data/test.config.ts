@@ -65,9 +65,64 @@ export const TEST_USER_DEFAULTS = {
   }
 };
 
+/**
+ * Files kept between test runs and shared between workers (ledgers, pools, sessions)
+ * Not committed; the directory can be deleted between runs
+ */
+export const TEST_STATE = {
+  DIR: process.env.TEST_STATE_DIR || '.test-state'
+};
+
+/**
+ * Checkpoints saved after each order journey step (see OrderJourney)
+ */
+export const JOURNEY = {
+  CHECKPOINT_DIR: 'checkpoints',    // <project>/<journey> directories, inside TEST_STATE.DIR
+  RESUME_FROM: process.env.JOURNEY_RESUME_FROM  // e.g. after-payment: start journeys from this checkpoint
+};
+
+/**
+ * Pool of purchased accounts reused by dashboard tests (see AccountPool)
+ * Stored in the test state directory, with one storageState file per account
+ */
+export const ACCOUNT_POOL = {
+  ENABLED: process.env.ACCOUNT_POOL !== 'false',  // false: buy a new account for every test, as before
+  FILE: 'account-pool.json',
+  STORAGE_DIR: 'accounts',          // storageState files, inside TEST_STATE.DIR
+  MIN_IDLE: parseInt(process.env.ACCOUNT_POOL_MIN_IDLE || '2'),  // Refill target, and when to suggest a refill
+  MAX_USES: 50,                     // Retire accounts after this many tests
+  CHECKOUT_TTL: 60 * 60 * 1000,     // Checkouts older than this are from crashed workers and can be taken over
+  LOCK_TIMEOUT: 30000               // Longest a checkout or return holds the pool lock
+};
+
+/**
+ * Logged in sessions shared by specs that opt in (see AuthSession)
+ * A reserved pooled account logs in by magic link; one storageState per project
+ */
+export const AUTH = {
+  SETUP: process.env.AUTH_SETUP === 'true',  // Log in for the selected projects in global setup
+  STATE_DIR: 'auth',                // <project>.json storageState files, inside TEST_STATE.DIR
+  ACCOUNT_PURPOSE: 'auth',          // Reservation name of the pooled account
+  LOCK_FILE: 'auth.lock',           // One login at a time across workers
+  LOCK_TIMEOUT: 3 * 60 * 1000       // Longest a login holds the lock: long enough for a login email to arrive
+};
+
+/**
+ * Two sessions of the same account editing the story at once (see ConcurrentSessions)
+ * Playwright device names, one browser context each, in the browser of PROJECT
+ * (Chromium: it emulates both devices, where Firefox has no mobile emulation)
+ */
+export const CONCURRENT_SESSIONS = {
+  PROJECT: 'Chrome',
+  DEVICES: {
+    desktop: 'Desktop Chrome',
+    iphone: 'iPhone 12'
+  }
+};
+
 /**
  * Email testing configuration
- * Supports multiple testing modes: MailSlurp, fake, and hardcoded
+ * Supports multiple testing modes: MailSlurp, local SMTP, fake, and hardcoded
  */
 export const EMAIL_CONFIG = {
   /**
@@ -92,7 +147,14 @@ export const EMAIL_CONFIG = {
       email: 'mystoris_refunds@mailslurp.biz',
       inboxId: 'fc15907d-5838-4ca0-81ab-321fad83dbfe'
     },
-    TEMP_RECIPIENT: 'or.grushka@myeritage.com'  // Temporary until MailSlurp setup
+    TEMP_RECIPIENT: 'or.grushka@myeritage.com',  // Temporary until MailSlurp setup
+    /**
+     * Durable record of every real card charge (see RefundLedger.ts)
+     * Append-only JSON lines, mirrored to a .csv next to it for the backoffice.
+     * Point REFUND_LEDGER_FILE at persistent storage on CI.
+     */
+    LEDGER_FILE: process.env.REFUND_LEDGER_FILE || 'refunds/refund-ledger.jsonl',
+    EMAIL_REPORT: process.env.REFUND_EMAIL_REPORT === 'true'  // Also email the reconciliation report after each charge
   },
   /**
    * Expected email subject patterns
@@ -114,6 +176,130 @@ export const EMAIL_CONFIG = {
     POLL_INTERVAL: 30000,    // 30 seconds
     MAX_RETRIES: 10
   },
+  /**
+   * MailSlurp inbox lifecycle (see MailSlurpInboxPool.ts and InboxLedger.ts)
+   * Every inbox the tests create is tagged and written to the ledger so it can be cleaned up
+   */
+  INBOX_POOL: {
+    TAG: 'mystories-qa',
+    MAX_USES: parseInt(process.env.MAILSLURP_INBOX_MAX_USES || '1'),  // Tests per inbox; above 1 also reuses the app account registered to the address
+    MAX_AGE: 60 * 60 * 1000,        // Don't hand out pooled inboxes older than 1 hour
+    EXPIRES_IN: parseInt(process.env.MAILSLURP_INBOX_EXPIRES_IN || '0'),  // Ask MailSlurp to expire inboxes after N ms (0 = off, needs plan support)
+    LEDGER_FILE: 'mailslurp-inboxes.jsonl',
+    STALE_DAYS: 3                   // Default age for the purge command
+  },
+  /**
+   * In-process SMTP capture server used by local_smtp mode
+   * Each Playwright worker listens on PORT + its parallel index
+   */
+  LOCAL_SMTP: {
+    HOST: process.env.LOCAL_SMTP_HOST || '127.0.0.1',
+    PORT: parseInt(process.env.LOCAL_SMTP_PORT || '2525'),
+    DOMAIN: process.env.LOCAL_SMTP_DOMAIN || 'mystories.local',
+    DEFAULT_WAIT: 30000,     // 30 seconds - delivery is local
+    POLL_INTERVAL: 500       // 0.5 seconds
+  },
+  /**
+   * Mailpit (or MailHog-compatible) mail catcher used by mailpit mode
+   * The app delivers to SMTP_HOST:SMTP_PORT, tests read through the HTTP API at URL
+   */
+  MAILPIT: {
+    URL: process.env.MAILPIT_URL || 'http://localhost:8025',
+    SMTP_HOST: process.env.MAILPIT_SMTP_HOST || 'localhost',
+    SMTP_PORT: parseInt(process.env.MAILPIT_SMTP_PORT || '1025'),
+    DOMAIN: process.env.MAILPIT_DOMAIN || 'mystories.local',
+    DEFAULT_WAIT: 60000,     // 1 minute
+    POLL_INTERVAL: 1000      // 1 second
+  },
+  /**
+   * Recorded email fixtures (see EmailFixtureStore.ts)
+   * EMAIL_FIXTURES=record saves every delivered email by type;
+   * EMAIL_FIXTURES=replay serves them in fake mode, filled in for the current test user
+   */
+  FIXTURES: {
+    MODE: process.env.EMAIL_FIXTURES as 'record' | 'replay' | undefined,
+    DIR: process.env.EMAIL_FIXTURES_DIR || 'tests/data/email-fixtures',
+    // Query parameters holding credentials (login and activation tokens), saved as REDACTED
+    SECRET_PARAMS: ['token', 'code', 'key', 'auth', 'signature', 'sig', 'otp']
+  },
+  /**
+   * Replies to weekly question emails (see EmailReply.ts)
+   * Replies carry a signature and the quoted question, like a real mail client;
+   * the app should store only the answer
+   */
+  REPLIES: {
+    SIGNATURE: 'Sent from my iPhone',
+    INGEST_TIMEOUT: 600000,     // 10 minutes for the answer to show up on the dashboard
+    POLL_INTERVAL: 30000,       // 30 seconds between dashboard reloads
+    IMAGE_COMPARE_SIZE: 64,     // Images are compared as 64x64 thumbnails, so re-encoding and resizing don't matter
+    IMAGE_MAX_MISMATCH: 0.05    // Share of thumbnail pixels allowed to differ
+  },
+  /**
+   * Weekly question cadence (see QuestionSchedule.ts)
+   * Production sends each question on the date shown on the dashboard; the sandbox
+   * compresses the schedule, counting from the order time
+   */
+  QUESTION_SCHEDULE: {
+    PRODUCTION: {
+      FIRST_QUESTION: 0,                     // First question goes out right after the order
+      INTERVAL: 7 * 24 * 60 * 60 * 1000      // Then one a week
+    },
+    SANDBOX: {
+      // No defaults: the sandbox's settings, required when STRIPE_SANDBOX=true
+      FIRST_QUESTION: parseInt(process.env.SANDBOX_FIRST_QUESTION_DELAY || '', 10),
+      INTERVAL: parseInt(process.env.SANDBOX_QUESTION_INTERVAL || '', 10)
+    },
+    GRACE: 300000,       // 5 minutes late still counts as on time
+    MAX_WAIT: 1800000,   // Don't block a test more than 30 minutes on a question, even when its deadline is later
+    TEST_MARGIN: 120000  // Test time left for the checks once the question arrived
+  },
+  /**
+   * Email HTML linter rules (see EmailLinter.ts)
+   * Findings are attached to the report; set EMAIL_LINT_STRICT=true to fail tests on errors
+   */
+  LINT: {
+    STRICT: process.env.EMAIL_LINT_STRICT === 'true',
+    MAX_HTML_BYTES: 102 * 1024,   // Gmail clips messages above ~102KB
+    UNSUBSCRIBE_REQUIRED_SENDERS: ['questions@stories.mystories.com'],  // Recurring emails
+    ALLOWED_LINK_SCHEMES: ['https:', 'mailto:', 'tel:']
+  },
+  /**
+   * Plain text alternative checks (see EmailTextParity.ts)
+   */
+  TEXT_PARITY: {
+    MIN_COVERAGE: 0.8,     // Share of HTML words the text part should have (warning below)
+    LABEL_DISTANCE: 200    // How far after a CTA label its URL may be in the text
+  },
+  /**
+   * Email journey recording (see EmailJourney.ts)
+   * SLAs are the maximum delay between a trigger and the email arriving
+   */
+  JOURNEY: {
+    SLA: {
+      WELCOME: 120000,         // 2 minutes after payment
+      LOGIN: 60000,            // 1 minute after requesting a login link
+      GIFT_RECEIVE: 120000,    // 2 minutes after payment (or the gift date)
+      GIFT_OPENED: 120000,     // 2 minutes after the recipient activates
+      WEEKLY_QUESTION: 300000  // 5 minutes after the scheduled time
+    },
+    SETTLE_TIME: 15000,        // Keep watching for extra emails after the last expected one
+    CLOCK_SKEW: 5000,          // Tolerance between local and mail server clocks
+    POLL_INTERVAL: 2000
+  },
+  /**
+   * Where tracked email links must land (see TrackingLinkResolver.ts)
+   * Routes are matched against the destination path on the app host
+   */
+  LINK_DESTINATIONS: {
+    HOST: new URL(URLS.APP).host,
+    ROUTES: {
+      login: /^\/login\b/,
+      activation: /^\/(gift\/)?activat/,
+      question: /^\/questions?\b/
+    },
+    REQUIRED_UTM: ['utm_source', 'utm_medium', 'utm_campaign'],
+    MAX_REDIRECTS: 5
+  },
   /**
    * Patterns for matching email links
    * Used to extract and validate URLs in emails
@@ -66,6 +66,29 @@ export const VISUAL_CONFIG = {
     giftActivation: false,          // Instructions for gift recipients
     giftOpened: false,             // Notification to gift giver
     weeklyQuestion: false,          // Weekly story prompt email
+  },
+
+  /**
+   * How emails are rendered for visual testing
+   * Each enabled email is compared at every viewport, with dynamic
+   * content (names, dates, tokens) replaced by fixed masked text
+   */
+  emailRendering: {
+    viewports: {
+      mobile: { width: 375, height: 667 },
+      desktop: { width: 1024, height: 768 }
+    },
+    // Selector for masked content; Playwright paints these areas over
+    maskSelector: '[data-visual-mask]',
+    // Dates like "March 5, 2025", "5 Mar 2025", "2025-03-05" and "03/05/2025"
+    datePatterns: [
+      /\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.? \d{1,2},? \d{4}\b/g,
+      /\b\d{1,2} (Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.? \d{4}\b/g,
+      /\b\d{4}-\d{2}-\d{2}\b/g,
+      /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g
+    ],
+    // Long random-looking strings such as tokens and codes
+    tokenPattern: /\b(?=[A-Za-z0-9_-]*\d)[A-Za-z0-9_-]{16,}\b/g
   }
 };
 
@@ -82,6 +105,9 @@ export interface VisualTestOptions {
   // Overrides the global sensitivity setting
   sensitivity?: number;
 
+  // Optional CSS selectors for dynamic areas to mask in the screenshot
+  mask?: string[];
+
   // Additional metadata about the test
   // Useful for debugging and documentation
   metadata?: {
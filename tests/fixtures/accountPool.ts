@@ -0,0 +1,50 @@
+import { test as base } from '@playwright/test';
+import { AccountPool, PooledAccount } from '../helpers/AccountPool';
+import { TestDataGenerator } from '../helpers/TestDataGenerator';
+import { ACCOUNT_POOL } from '../data/test.config';
+
+/**
+ * Pooled account per test
+ *
+ * Extend this instead of @playwright/test in dashboard specs. Each test gets
+ * `account`, checked out of the pool and reset to its starting questions, and
+ * its page starts logged in as that account (open the app with
+ * TestFlowHelper.openDashboard). When no account is idle a new one is bought
+ * and added to the pool. With ACCOUNT_POOL=false every test buys its own.
+ */
+export const test = base.extend<{ account: PooledAccount }, { accountPool: AccountPool | undefined }>({
+  accountPool: [async ({}, use) => {
+    await use(ACCOUNT_POOL.ENABLED ? new AccountPool() : undefined);
+  }, { scope: 'worker' }],
+
+  account: async ({ browser, accountPool }, use, testInfo) => {
+    let account: PooledAccount | undefined;
+    while (accountPool && (account = await accountPool.checkout(testInfo.title))) {
+      const problem = await AccountPool.reset(browser, account);
+      if (!problem) break;
+      await accountPool.checkin(account.email, problem);
+      account = undefined;
+    }
+
+    if (!account) {
+      account = await AccountPool.create(browser, { testData: new TestDataGenerator(testInfo) });
+      if (accountPool) {
+        await accountPool.add({
+          ...account,
+          checkedOut: { test: testInfo.title, worker: testInfo.workerIndex, at: new Date().toISOString() }
+        });
+      }
+    }
+    testInfo.annotations.push({ type: 'account', description: `${account.email} (${account.orderType}, use ${account.uses + 1})` });
+
+    await use(account);
+
+    if (accountPool) {
+      await accountPool.checkin(account.email);
+    }
+  },
+
+  storageState: async ({ account }, use) => {
+    await use(account.storageState);
+  }
+});
@@ -0,0 +1,20 @@
+import { test as base } from '@playwright/test';
+import { AuthSession, AuthState } from '../helpers/AuthSession';
+
+/**
+ * Logged in session per project
+ *
+ * Extend this instead of @playwright/test in specs that only need a logged in
+ * user: pages start with the project's saved session (see AuthSession), which
+ * each worker checks once and renews when it expired. `auth.account` is the
+ * shared account, so tests must not change its book or questions.
+ */
+export const test = base.extend<{}, { auth: AuthState }>({
+  auth: [async ({ browser }, use, workerInfo) => {
+    await use(await AuthSession.ensure(browser, workerInfo.project.name, AuthSession.contextOptions(workerInfo.project)));
+  }, { scope: 'worker' }],
+
+  storageState: async ({ auth }, use) => {
+    await use(auth.storageState);
+  }
+});
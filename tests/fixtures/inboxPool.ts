@@ -0,0 +1,22 @@
+import { test as base } from '@playwright/test';
+import { MailSlurpInboxPool } from '../helpers/MailSlurpInboxPool';
+import { MailSlurpProvider } from '../helpers/providers/MailSlurpProvider';
+
+/**
+ * Worker-scoped MailSlurp inbox pool
+ *
+ * Extend this instead of @playwright/test in specs whose emailHandler creates
+ * MailSlurp inboxes, and pass inboxPool.lease(...) to the EmailHandler.
+ * Undefined when no MailSlurp API key is configured.
+ */
+export const test = base.extend<{}, { inboxPool: MailSlurpInboxPool | undefined }>({
+  inboxPool: [async ({}, use) => {
+    if (!process.env.MAILSLURP_API_KEY) {
+      await use(undefined);
+      return;
+    }
+    const pool = new MailSlurpInboxPool(new MailSlurpProvider(process.env.MAILSLURP_API_KEY));
+    await use(pool);
+    await pool.drain();
+  }, { scope: 'worker' }]
+});
@@ -0,0 +1,22 @@
+import { test as base } from '@playwright/test';
+import { EmailHandler, EmailMode } from '../helpers/EmailHandler';
+import { AppEmailStandIn } from '../helpers/AppEmailStandIn';
+
+/**
+ * Local email per test
+ *
+ * Extend this instead of @playwright/test in specs that need no MailSlurp key
+ * or live app: `emailHandler` captures emails with the in-process SMTP server
+ * (EmailMode.LOCAL_SMTP) and `standIn` sends them as the app would. Lint
+ * findings of the received emails are attached to the report.
+ */
+export const test = base.extend<{ emailHandler: EmailHandler; standIn: AppEmailStandIn }>({
+  emailHandler: async ({}, use, testInfo) => {
+    const handler = new EmailHandler({ mode: EmailMode.LOCAL_SMTP });
+    await use(handler);
+    await handler.attachLintReports(testInfo);
+  },
+  standIn: async ({ emailHandler }, use) => {
+    await use(new AppEmailStandIn(emailHandler.getSmtpEndpoint()));
+  }
+});
@@ -0,0 +1,277 @@
+import { Browser } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { QuestionsPage } from '../pages/QuestionsPage';
+import { GiftActivationPage } from '../pages/GiftActivationPage';
+import { EmailHandler } from './EmailHandler';
+import { TestDataGenerator } from './TestDataGenerator';
+import { TestFlowHelper } from './TestFlowHelper';
+import { persona } from './PersonaBuilder';
+import { getStatePath, withFileLock } from './TestRun';
+import { ACCOUNT_POOL, URLS } from '../data/test.config';
+
+/**
+ * Account Pool
+ *
+ * Accounts that already bought a subscription, kept between runs so dashboard
+ * tests don't buy a new one every time. Each account has its address, inbox,
+ * order type, the question list it started with and a storageState file with
+ * its logged in session.
+ *
+ * Workers check accounts out exclusively (the pool file is locked while it
+ * changes), tests reset the dashboard to the account's starting questions,
+ * and accounts go back to the pool afterwards. Accounts whose session expired
+ * or whose dashboard can't be reset are retired. Reserved accounts are held for
+ * shared use instead (see AuthSession) and never checked out.
+ *
+ * Refill with `npm run accounts:refill`; see tests/fixtures/accountPool.ts for use in specs.
+ */
+
+export type AccountOrderType = 'self' | 'gift';
+
+export interface PooledAccount {
+  email: string;
+  inboxId?: string;          // Provider inbox, when created with a real inbox
+  orderType: AccountOrderType;
+  firstName: string;
+  lastName: string;
+  storyName: string;         // Book name and questions right after purchase, what resets go back to
+  questions: string[];
+  storageState: string;      // Path of the storageState file
+  createdAt: string;
+  uses: number;
+  lastUsedAt?: string;
+  checkedOut?: { test: string; worker?: number; at: string };
+  reserved?: string;         // Held for shared use, e.g. 'auth' login sessions; never checked out
+  retired?: { reason: string; at: string };
+}
+
+export interface CreateAccountOptions {
+  orderType?: AccountOrderType;
+  emailHandler?: EmailHandler;  // Registers inboxes; required with a real inbox for gift accounts
+  testData?: TestDataGenerator;
+}
+
+export class AccountPool {
+  constructor(readonly filePath: string = getStatePath(ACCOUNT_POOL.FILE)) {}
+
+  /**
+   * All accounts, including checked out and retired ones
+   */
+  list(): PooledAccount[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+  }
+
+  /**
+   * Accounts that can be checked out now
+   */
+  idle(): PooledAccount[] {
+    const now = Date.now();
+    return this.list().filter(account => !account.retired && !account.reserved && (
+      !account.checkedOut || now - new Date(account.checkedOut.at).getTime() > ACCOUNT_POOL.CHECKOUT_TTL
+    ));
+  }
+
+  /**
+   * Take the least recently used idle account for a test
+   * @returns undefined when no account is idle
+   */
+  async checkout(test: string): Promise<PooledAccount | undefined> {
+    return this.update(accounts => {
+      const idleEmails = new Set(this.idle().map(account => account.email));
+      const account = accounts
+        .filter(candidate => idleEmails.has(candidate.email))
+        .sort((a, b) => (a.lastUsedAt || a.createdAt).localeCompare(b.lastUsedAt || b.createdAt))[0];
+      if (account) {
+        if (account.checkedOut) {
+          console.warn(`⚠️ Taking over ${account.email} from stale checkout by "${account.checkedOut.test}"`);
+        }
+        account.checkedOut = { test, worker: this.worker(), at: new Date().toISOString() };
+        console.log(`👤 Checked out pooled ${account.orderType} account ${account.email} (use ${account.uses + 1})`);
+      }
+      return account;
+    });
+  }
+
+  /**
+   * Return an account to the pool
+   * @param retire Reason to stop handing the account out, e.g. an expired session
+   */
+  async checkin(email: string, retire?: string): Promise<void> {
+    const idleLeft = await this.update(accounts => {
+      const account = accounts.find(candidate => candidate.email === email);
+      if (!account) return 0;
+      account.checkedOut = undefined;
+      account.uses++;
+      account.lastUsedAt = new Date().toISOString();
+      const reason = retire || (account.uses >= ACCOUNT_POOL.MAX_USES ? `used ${account.uses} times` : undefined);
+      if (reason) {
+        account.retired = { reason, at: account.lastUsedAt };
+        console.log(`👤 Retired pooled account ${email}: ${reason}`);
+      }
+      return accounts.filter(candidate => !candidate.retired && !candidate.reserved && !candidate.checkedOut).length;
+    });
+    if (idleLeft < ACCOUNT_POOL.MIN_IDLE) {
+      console.log(`👤 ${idleLeft} idle pooled account(s) left, refill with: npm run accounts:refill`);
+    }
+  }
+
+  /**
+   * Hold an account for shared use instead of per-test checkouts
+   * @param matches Which idle accounts qualify, e.g. those with an inbox
+   * @returns The account already held for the purpose, else the least recently used matching idle one
+   */
+  async reserve(purpose: string, matches: (account: PooledAccount) => boolean = () => true): Promise<PooledAccount | undefined> {
+    return this.update(accounts => {
+      const held = accounts.find(account => account.reserved === purpose && !account.retired);
+      if (held) return held;
+      const idleEmails = new Set(this.idle().map(account => account.email));
+      const account = accounts
+        .filter(candidate => idleEmails.has(candidate.email) && matches(candidate))
+        .sort((a, b) => (a.lastUsedAt || a.createdAt).localeCompare(b.lastUsedAt || b.createdAt))[0];
+      if (account) {
+        account.reserved = purpose;
+        console.log(`👤 Reserved pooled account ${account.email} for ${purpose}`);
+      }
+      return account;
+    });
+  }
+
+  /**
+   * Stop holding an account, e.g. one whose login failed
+   * @param retire Reason to stop handing the account out at all
+   */
+  async release(email: string, retire?: string): Promise<void> {
+    await this.update(accounts => {
+      const account = accounts.find(candidate => candidate.email === email);
+      if (!account) return;
+      account.reserved = undefined;
+      if (retire) {
+        account.retired = { reason: retire, at: new Date().toISOString() };
+        console.log(`👤 Retired pooled account ${email}: ${retire}`);
+      }
+    });
+  }
+
+  /**
+   * Add a new account, checked out to a test or idle
+   */
+  async add(account: PooledAccount): Promise<void> {
+    await this.update(accounts => {
+      accounts.push(account);
+    });
+  }
+
+  /**
+   * Buy a subscription for a new account and record its starting dashboard
+   * Self accounts order for themselves; gift accounts are recipients who activated their gift
+   */
+  static async create(browser: Browser, options: CreateAccountOptions = {}): Promise<PooledAccount> {
+    const orderType = options.orderType || 'self';
+    const builder = persona(options.testData || new TestDataGenerator());
+    if (orderType === 'gift') {
+      if (!options.emailHandler?.getProvider().delivers) {
+        throw new Error('Gift accounts are activated from the gift email and need a real inbox (e.g. EMAIL_MODE=mailslurp)');
+      }
+      builder.giftRecipient();
+    }
+    const { storyteller, giftGiver } = options.emailHandler ?
+      await builder.register(options.emailHandler) :
+      await builder.build();
+
+    const context = await browser.newContext();
+    try {
+      const page = await context.newPage();
+      const questionsPage = new QuestionsPage(page);
+      if (giftGiver) {
+        await TestFlowHelper.completeGiftOrderFlow(page, storyteller, giftGiver);
+        const receiveEmail = await options.emailHandler!.waitForGiftReceiveEmail(storyteller.email, {
+          giverFirstName: giftGiver.firstName,
+          receiverFirstName: storyteller.firstName
+        });
+        await page.goto(await options.emailHandler!.extractActivationLink(receiveEmail));
+        await new GiftActivationPage(page).completeActivation();
+        await questionsPage.waitForDashboard();
+      } else {
+        await TestFlowHelper.completeOrderFlow(page, storyteller);
+        await TestFlowHelper.goToDashboard(page);
+      }
+
+      const storageState = AccountPool.storageStatePath(storyteller.email);
+      await context.storageState({ path: storageState });
+      const account: PooledAccount = {
+        email: storyteller.email,
+        inboxId: options.emailHandler?.getRegisteredInboxId(storyteller.email),
+        orderType,
+        firstName: storyteller.firstName,
+        lastName: storyteller.lastName,
+        storyName: await questionsPage.getStoryName(),
+        questions: (await questionsPage.getAllQuestionsInfo()).map(question => question.text),
+        storageState,
+        createdAt: new Date().toISOString(),
+        uses: 0
+      };
+      console.log(`👤 Created ${orderType} account ${account.email} with ${account.questions.length} questions`);
+      return account;
+    } finally {
+      await context.close();
+    }
+  }
+
+  /**
+   * Open the account's dashboard, reset it to its starting state and save the refreshed session
+   * @returns The reason the account can't be used, or undefined when it is ready
+   */
+  static async reset(browser: Browser, account: PooledAccount): Promise<string | undefined> {
+    if (!fs.existsSync(account.storageState)) return 'storageState file missing';
+
+    const context = await browser.newContext({ storageState: account.storageState });
+    try {
+      const page = await context.newPage();
+      const questionsPage = new QuestionsPage(page);
+      await page.goto(URLS.APP);
+      try {
+        await questionsPage.waitForDashboard();
+      } catch {
+        return `session expired, dashboard not reachable (${page.url()})`;
+      }
+
+      try {
+        await questionsPage.resetStoryName(account.storyName);
+        await questionsPage.resetQuestions(account.questions);
+      } catch (error) {
+        return `dashboard reset failed: ${error instanceof Error ? error.message : error}`;
+      }
+      await context.storageState({ path: account.storageState });
+      return undefined;
+    } finally {
+      await context.close();
+    }
+  }
+
+  static storageStatePath(email: string): string {
+    const dir = getStatePath(ACCOUNT_POOL.STORAGE_DIR);
+    fs.mkdirSync(dir, { recursive: true });
+    return path.join(dir, `${email.replace(/[^a-z0-9.@-]/gi, '_')}.json`);
+  }
+
+  /**
+   * Read, change and write the pool file while holding its lock
+   */
+  private async update<T>(change: (accounts: PooledAccount[]) => T): Promise<T> {
+    return withFileLock(`${this.filePath}.lock`, () => {
+      const accounts = this.list();
+      const result = change(accounts);
+      fs.writeFileSync(this.filePath, JSON.stringify(accounts, null, 2));
+      return result;
+    }, ACCOUNT_POOL.LOCK_TIMEOUT);
+  }
+
+  /**
+   * Playwright worker index, when called from a worker
+   */
+  private worker(): number | undefined {
+    return process.env.TEST_WORKER_INDEX !== undefined ? parseInt(process.env.TEST_WORKER_INDEX) : undefined;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * App Email Stand-In
+ *
+ * Sends MyStories-like transactional emails over SMTP so the email helpers can be
+ * exercised end to end without the real app or a MailSlurp key:
+ * - Same subjects and senders as EMAIL_CONFIG
+ * - Same button texts the EmailHandler link extraction looks for
+ * - customer.io style tracking links wrapping app URLs
+ * - HTML and plain text alternatives
+ *
+ * Used together with EmailMode.LOCAL_SMTP (see EmailHandler.getSmtpEndpoint()).
+ */
+
+import { sendSmtp } from './providers/SmtpSender';
+import { EMAIL_CONFIG, URLS } from '../data/test.config';
+
+interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  preheader: string;
+  heading: string;
+  paragraphs: string[];
+  button?: { text: string; url: string };
+  unsubscribe?: boolean;
+}
+
+export class AppEmailStandIn {
+  constructor(private readonly endpoint: { host: string; port: number }) {}
+
+  /**
+   * Wrap an app URL the way customer.io click tracking does:
+   * https://e.customeriomail.com/e/c/<base64url JSON payload>/<signature>
+   */
+  static trackingLink(href: string): string {
+    const payload = Buffer.from(JSON.stringify({
+      email_id: `stand-in-${Date.now()}`,
+      href,
+      internal: Math.random().toString(16).slice(2, 10),
+      link_id: 1
+    })).toString('base64url');
+    return `${EMAIL_CONFIG.LINK_PATTERNS.BASE}e/c/${payload}/${Math.random().toString(16).slice(2, 14)}`;
+  }
+
+  private static token(): string {
+    return Math.random().toString(36).slice(2) + Math.random().toString(36).slice(2);
+  }
+
+  async sendWelcomeEmail(to: string, params: { firstName: string }): Promise<void> {
+    await this.send({
+      from: EMAIL_CONFIG.SENDERS.STORIES,
+      to,
+      subject: EMAIL_CONFIG.SUBJECTS.WELCOME,
+      preheader: 'Your storytelling journey starts today',
+      heading: `Welcome, ${params.firstName}!`,
+      paragraphs: [
+        'Thank you for joining MyStories. Every week we will send you a question to inspire a new story.',
+        'Your answers will be collected into a beautiful book.'
+      ],
+      button: {
+        text: 'Visit MyStories',
+        url: AppEmailStandIn.trackingLink(`${URLS.APP}/login?token=${AppEmailStandIn.token()}&utm_source=customerio&utm_medium=email&utm_campaign=welcome`)
+      }
+    });
+  }
+
+  async sendLoginEmail(to: string): Promise<void> {
+    await this.send({
+      from: EMAIL_CONFIG.SENDERS.STORIES,
+      to,
+      subject: EMAIL_CONFIG.SUBJECTS.LOGIN,
+      preheader: 'Your secure login link',
+      heading: 'Log in to MyStories',
+      paragraphs: ['Click the button below to log in. This link can only be used once.'],
+      button: {
+        text: 'Log in to MyStories',
+        url: AppEmailStandIn.trackingLink(`${URLS.APP}/login?token=${AppEmailStandIn.token()}&utm_source=customerio&utm_medium=email&utm_campaign=login`)
+      }
+    });
+  }
+
+  async sendGiftReceiveEmail(to: string, params: { receiverFirstName: string; giverFirstName: string }): Promise<void> {
+    await this.send({
+      from: EMAIL_CONFIG.SENDERS.STORIES,
+      to,
+      subject: EMAIL_CONFIG.SUBJECTS.GIFT_RECEIVE
+        .replace('{receiverFirstName}', params.receiverFirstName)
+        .replace('{giverFirstName}', params.giverFirstName),
+      preheader: `${params.giverFirstName} has a gift for you`,
+      heading: `${params.receiverFirstName}, you have received a gift!`,
+      paragraphs: [`${params.giverFirstName} gave you MyStories, a chance to share your life stories.`],
+      button: {
+        text: 'Get started',
+        url: AppEmailStandIn.trackingLink(`${URLS.APP}/gift/activate?token=${AppEmailStandIn.token()}&utm_source=customerio&utm_medium=email&utm_campaign=gift_receive`)
+      }
+    });
+  }
+
+  async sendGiftOpenedEmail(to: string, params: { receiverFirstName: string }): Promise<void> {
+    await this.send({
+      from: EMAIL_CONFIG.SENDERS.STORIES,
+      to,
+      subject: EMAIL_CONFIG.SUBJECTS.GIFT_OPENED,
+      preheader: `${params.receiverFirstName} opened your gift`,
+      heading: 'Your gift was opened!',
+      paragraphs: [`${params.receiverFirstName} has activated the MyStories gift you sent.`]
+    });
+  }
+
+  async sendWeeklyQuestionEmail(to: string, params: { firstName: string; question: string }): Promise<void> {
+    await this.send({
+      from: EMAIL_CONFIG.SENDERS.QUESTIONS,
+      to,
+      subject: EMAIL_CONFIG.SUBJECTS.WEEKLY_QUESTION
+        .replace('{firstName}', params.firstName)
+        .replace('{question}', params.question),
+      preheader: 'Reply to this email or answer online',
+      heading: params.question,
+      paragraphs: ['You can reply to this email with your story, or answer online.'],
+      button: {
+        text: 'Answer',
+        url: AppEmailStandIn.trackingLink(`${URLS.APP}/questions/answer?token=${AppEmailStandIn.token()}&utm_source=customerio&utm_medium=email&utm_campaign=weekly_question`)
+      },
+      unsubscribe: true
+    });
+  }
+
+  /**
+   * Send a prebuilt MIME message as is, e.g. one with injected headers
+   */
+  async sendRawEmail(from: string, to: string, raw: string): Promise<void> {
+    await sendSmtp(this.endpoint, { envelope: { from, to: [to] }, raw });
+  }
+
+  private async send(email: OutgoingEmail): Promise<void> {
+    const unsubscribeUrl = AppEmailStandIn.trackingLink(`${URLS.APP}/settings/unsubscribe?token=${AppEmailStandIn.token()}`);
+    await sendSmtp(this.endpoint, {
+      from: `MyStories <${email.from}>`,
+      to: email.to,
+      subject: email.subject,
+      headers: email.unsubscribe ? { 'List-Unsubscribe': `<${unsubscribeUrl}>` } : undefined,
+      html: this.renderHtml(email, unsubscribeUrl),
+      text: this.renderText(email, unsubscribeUrl)
+    });
+  }
+
+  private renderHtml(email: OutgoingEmail, unsubscribeUrl: string): string {
+    const paragraphs = email.paragraphs.map(p => `<p style="font-size:16px;line-height:24px;">${p}</p>`).join('\n');
+    const button = email.button
+      ? `<a href="${email.button.url}" style="display:inline-block;padding:12px 24px;background:#4b3f72;color:#ffffff;border-radius:4px;text-decoration:none;">${email.button.text}</a>`
+      : '';
+    const footer = email.unsubscribe
+      ? `<p style="font-size:12px;color:#888888;"><a href="${unsubscribeUrl}">Unsubscribe</a></p>`
+      : '';
+    return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${email.subject}</title></head>
+<body style="margin:0;padding:0;background:#f5f5f5;font-family:Arial,sans-serif;">
+<div class="preheader" style="display:none;max-height:0;overflow:hidden;">${email.preheader}</div>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+<tr><td align="center" style="padding:24px;">
+<img src="https://www.mystories.com/logo.png" alt="MyStories" width="160">
+<h1 style="font-size:24px;">${email.heading}</h1>
+${paragraphs}
+${button}
+${footer}
+</td></tr>
+</table>
+</body>
+</html>`;
+  }
+
+  private renderText(email: OutgoingEmail, unsubscribeUrl: string): string {
+    const lines = [email.heading, '', ...email.paragraphs];
+    if (email.button) {
+      lines.push('', `${email.button.text}: ${email.button.url}`);
+    }
+    if (email.unsubscribe) {
+      lines.push('', `Unsubscribe: ${unsubscribeUrl}`);
+    }
+    return lines.join('\n');
+  }
+}
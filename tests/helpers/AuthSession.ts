@@ -0,0 +1,168 @@
+import { Browser, BrowserContextOptions, FullProject, chromium, firefox, webkit } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BasePage, CookieConsentOption } from '../pages/BasePage';
+import { QuestionsPage } from '../pages/QuestionsPage';
+import { CookieConsentHandler } from './CookieConsentHandler';
+import { EmailHandler, EmailMode } from './EmailHandler';
+import { AccountPool, PooledAccount } from './AccountPool';
+import { MailSlurpProvider } from './providers/MailSlurpProvider';
+import { getStatePath, withFileLock } from './TestRun';
+import { AUTH, URLS } from '../data/test.config';
+
+/**
+ * Auth Session
+ *
+ * Logged in sessions for specs that only need to be logged in, instead of
+ * purchasing to reach the app. A pooled account (with a MailSlurp inbox) is
+ * reserved for it, requests a login link, and the link from the login email
+ * is opened; the session is saved as storageState per Playwright project,
+ * since cookies and storage differ per browser and device.
+ *
+ * Global setup logs in for the selected projects when AUTH_SETUP=true, and
+ * the fixture in tests/fixtures/auth.ts checks the session again in every
+ * worker and logs in again when it expired. Logins are serialized with a
+ * lock so workers don't consume each other's links.
+ */
+
+export interface AuthState {
+  account: PooledAccount;
+  storageState: string;  // Path of the project's storageState file
+}
+
+export class AuthSession {
+  /**
+   * Make sure the project has a working session, logging in when it is missing or expired
+   */
+  static async ensure(browser: Browser, project: string, contextOptions: BrowserContextOptions = {}): Promise<AuthState> {
+    const account = await AuthSession.account();
+    const storageState = AuthSession.statePath(project);
+    if (await AuthSession.isValid(browser, storageState, contextOptions)) {
+      return { account, storageState };
+    }
+
+    if (!process.env.MAILSLURP_API_KEY) {
+      throw new Error('MAILSLURP_API_KEY is required to log in by magic link');
+    }
+    return withFileLock(getStatePath(AUTH.LOCK_FILE), async () => {
+      // Another worker may have logged in while this one waited
+      if (!await AuthSession.isValid(browser, storageState, contextOptions)) {
+        let unusable: string | undefined;
+        try {
+          unusable = await AuthSession.login(browser, account, storageState, contextOptions);
+        } catch (error) {
+          // MailSlurp, network or app trouble says nothing about the account: hand it out again
+          await new AccountPool().release(account.email);
+          throw error;
+        }
+        if (unusable) {
+          // A dead inbox or a rejected link would fail every later run the same way
+          await new AccountPool().release(account.email, `login failed: ${unusable}`);
+          throw new Error(`Pooled account ${account.email} can't log in: ${unusable}`);
+        }
+      }
+      return { account, storageState };
+    }, AUTH.LOCK_TIMEOUT);
+  }
+
+  /**
+   * Log in for each project in global setup
+   */
+  static async setup(projects: FullProject[]): Promise<void> {
+    for (const project of projects) {
+      console.log(`🔑 Checking the logged in session for ${project.name}`);
+      const browserName = project.use.browserName || project.use.defaultBrowserType || 'chromium';
+      const browser = await { chromium, firefox, webkit }[browserName].launch({
+        channel: project.use.channel,
+        headless: project.use.headless
+      });
+      try {
+        await AuthSession.ensure(browser, project.name, AuthSession.contextOptions(project));
+      } finally {
+        await browser.close();
+      }
+    }
+  }
+
+  /**
+   * Device settings of a project, so the session is created as that device
+   */
+  static contextOptions(project: FullProject): BrowserContextOptions {
+    const { viewport, userAgent, deviceScaleFactor, isMobile, hasTouch, locale, timezoneId } = project.use;
+    return { viewport, userAgent, deviceScaleFactor, isMobile, hasTouch, locale, timezoneId };
+  }
+
+  static statePath(project: string): string {
+    const dir = getStatePath(AUTH.STATE_DIR);
+    fs.mkdirSync(dir, { recursive: true });
+    return path.join(dir, `${project.replace(/[^a-z0-9-]/gi, '_')}.json`);
+  }
+
+  /**
+   * The pooled account reserved for logged in sessions
+   */
+  private static async account(): Promise<PooledAccount> {
+    const account = await new AccountPool().reserve(AUTH.ACCOUNT_PURPOSE, candidate => !!candidate.inboxId);
+    if (!account) {
+      throw new Error('Logged in sessions need a pooled account with a MailSlurp inbox. ' +
+        'Run npm run accounts:refill with MAILSLURP_API_KEY set');
+    }
+    return account;
+  }
+
+  private static async isValid(browser: Browser, storageState: string, contextOptions: BrowserContextOptions): Promise<boolean> {
+    if (!fs.existsSync(storageState)) return false;
+
+    const context = await browser.newContext({ ...contextOptions, storageState });
+    try {
+      const page = await context.newPage();
+      await page.goto(URLS.APP);
+      await new QuestionsPage(page).waitForDashboard();
+      return true;
+    } catch {
+      console.log(`🔑 Session in ${storageState} expired`);
+      return false;
+    } finally {
+      await context.close();
+    }
+  }
+
+  /**
+   * Log in by magic link and save the session
+   * @returns The reason the account can't log in at all, or undefined once logged in
+   */
+  private static async login(browser: Browser, account: PooledAccount, storageState: string, contextOptions: BrowserContextOptions): Promise<string | undefined> {
+    console.log(`🔑 Logging in as ${account.email}`);
+    if (!await new MailSlurpProvider(process.env.MAILSLURP_API_KEY!).hasInbox(account.inboxId!)) {
+      return `MailSlurp inbox ${account.inboxId} no longer exists`;
+    }
+    const emailHandler = new EmailHandler({ mode: EmailMode.MAILSLURP, mailslurpApiKey: process.env.MAILSLURP_API_KEY }, browser);
+    emailHandler.useInbox(account.email, account.inboxId!);
+
+    const context = await browser.newContext(contextOptions);
+    try {
+      const page = await context.newPage();
+      await page.goto(URLS.HOME);
+      const cookieHandler = new CookieConsentHandler(page);
+      if (await cookieHandler.isVisible()) {
+        await cookieHandler.handle(CookieConsentOption.ALLOW_ALL);
+      }
+
+      const requestedAt = new Date();
+      await new BasePage(page).requestLoginLink(account.email);
+      const loginEmail = await emailHandler.waitForLoginEmail(account.email, { receivedAfter: requestedAt });
+      await page.goto(await emailHandler.extractLoginLink(loginEmail));
+      try {
+        await new QuestionsPage(page).waitForDashboard();
+      } catch {
+        return `login link rejected, dashboard not reachable (${page.url()})`;
+      }
+
+      await context.storageState({ path: storageState });
+      console.log(`🔑 Saved logged in session to ${storageState}`);
+      return undefined;
+    } finally {
+      await context.close();
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { Browser, BrowserContext, Page, devices } from '@playwright/test';
+import { QuestionsPage, QuestionInfo } from '../pages/QuestionsPage';
+import { TestFlowHelper } from './TestFlowHelper';
+import { CONCURRENT_SESSIONS } from '../data/test.config';
+
+export type SessionName = keyof typeof CONCURRENT_SESSIONS.DEVICES;
+
+export interface Session {
+  name: SessionName;
+  context: BrowserContext;
+  page: Page;
+  questionsPage: QuestionsPage;
+}
+
+/**
+ * Concurrent Sessions
+ *
+ * One account logged in to two browser contexts at once, a desktop and an
+ * iPhone (CONCURRENT_SESSIONS.DEVICES), both from the account's storageState
+ * and both on the dashboard. `together` runs an action in every session at the
+ * same time; `refresh` reloads the dashboards and reads each question list,
+ * which must agree once the edits are done.
+ */
+export class ConcurrentSessions {
+  private constructor(readonly sessions: Record<SessionName, Session>) {}
+
+  /**
+   * Open a context per device, logged in with the storageState, on the dashboard
+   */
+  static async open(browser: Browser, storageState: string): Promise<ConcurrentSessions> {
+    const sessions = {} as Record<SessionName, Session>;
+    for (const [name, device] of Object.entries(CONCURRENT_SESSIONS.DEVICES) as [SessionName, string][]) {
+      const context = await browser.newContext({ ...devices[device], storageState });
+      const page = await context.newPage();
+      sessions[name] = { name, context, page, questionsPage: new QuestionsPage(page) };
+    }
+
+    const concurrent = new ConcurrentSessions(sessions);
+    await concurrent.together(session => TestFlowHelper.openDashboard(session.page));
+    return concurrent;
+  }
+
+  get desktop(): Session {
+    return this.sessions.desktop;
+  }
+
+  get iphone(): Session {
+    return this.sessions.iphone;
+  }
+
+  /**
+   * Run an action in all sessions at the same time
+   * @returns The results per session
+   */
+  async together<T>(action: (session: Session) => Promise<T>): Promise<Record<SessionName, T>> {
+    const entries = await Promise.all(Object.values(this.sessions).map(async session =>
+      [session.name, await action(session)] as const));
+    return Object.fromEntries(entries) as Record<SessionName, T>;
+  }
+
+  /**
+   * Reload the dashboard in all sessions
+   * @returns The question list each session shows afterwards
+   */
+  async refresh(): Promise<Record<SessionName, QuestionInfo[]>> {
+    return this.together(async session => {
+      await TestFlowHelper.openDashboard(session.page);
+      const questions = await session.questionsPage.getAllQuestionsInfo();
+      console.log(`Questions in the ${session.name} session:`, questions);
+      return questions;
+    });
+  }
+
+  /**
+   * @returns The conflict warning each session shows, or null
+   */
+  async conflictWarnings(): Promise<Record<SessionName, string | null>> {
+    return this.together(session => session.questionsPage.getConflictWarning());
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(Object.values(this.sessions).map(session => session.context.close()));
+  }
+}
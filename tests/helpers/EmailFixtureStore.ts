@@ -0,0 +1,167 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { EMAIL_CONFIG } from '../data/test.config';
+import { Email } from './providers/EmailProvider';
+
+/**
+ * Email Fixture Store
+ *
+ * Saves real captured emails so the parsing and verification code can be
+ * exercised offline. One JSON file per email type holds the subject, sender,
+ * text, HTML and headers, with the test user's values (names, address)
+ * replaced by {{placeholders}}. Replaying fills them in for the current user.
+ *
+ * Credentials are never saved: token query parameters and the IDs and
+ * signature of tracking links become REDACTED, and a tracking payload keeps
+ * only its destination, so links still resolve to their routes offline.
+ *
+ * @example
+ * // Record while running against a real inbox
+ * EMAIL_FIXTURES=record EMAIL_MODE=mailslurp npx playwright test tests/tests/emails.spec.ts
+ * // Replay in fake mode
+ * EMAIL_FIXTURES=replay EMAIL_MODE=fake npx playwright test ...
+ */
+
+const REDACTED = 'REDACTED';
+
+export interface EmailFixture {
+  type: string;
+  subject: string;
+  from: string;
+  text: string;
+  html?: string;
+  headers: Record<string, string>;
+  placeholders: string[];
+  recordedAt: string;
+}
+
+export class EmailFixtureStore {
+  constructor(readonly dir: string = EMAIL_CONFIG.FIXTURES.DIR) {}
+
+  /**
+   * Save an email as the fixture for its type, replacing any earlier recording
+   * @param values The test user's values to turn into placeholders, e.g. { firstName: 'Jane' }
+   * @returns Path of the written fixture
+   */
+  async record(type: string, email: Email, values: Record<string, string>): Promise<string> {
+    const placeholders = new Set<string>();
+    const toPlaceholders = (text: string) => {
+      const replaced = this.replaceValues(this.redactSecrets(text), values);
+      (replaced.match(/\{\{\w+\}\}/g) || []).forEach(placeholder => placeholders.add(placeholder.slice(2, -2)));
+      return replaced;
+    };
+
+    const fixture: EmailFixture = {
+      type,
+      subject: toPlaceholders(email.subject),
+      from: email.from,
+      text: toPlaceholders(email.body),
+      html: email.html !== undefined ? toPlaceholders(email.html) : undefined,
+      headers: Object.fromEntries(Object.entries(email.headers || {}).map(([name, value]) => [name, toPlaceholders(value)])),
+      placeholders: Array.from(placeholders),
+      recordedAt: new Date().toISOString()
+    };
+
+    await fs.mkdir(this.dir, { recursive: true });
+    const filePath = this.pathFor(type);
+    await fs.writeFile(filePath, JSON.stringify(fixture, null, 2) + '\n');
+    console.log(`📼 Recorded ${type} email fixture: ${filePath}`);
+    return filePath;
+  }
+
+  /**
+   * Load the fixture for a type
+   * @throws Error when nothing was recorded for the type
+   */
+  async load(type: string): Promise<EmailFixture> {
+    const filePath = this.pathFor(type);
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch {
+      throw new Error(`No ${type} email fixture at ${filePath} - record one with EMAIL_FIXTURES=record`);
+    }
+  }
+
+  /**
+   * Build an email from the fixture for a type, filled in for the current test user
+   * @throws Error when a placeholder the fixture uses has no value
+   */
+  async replay(type: string, values: Record<string, string>, to: string): Promise<Email> {
+    const fixture = await this.load(type);
+    const missing = fixture.placeholders.filter(name => values[name] === undefined);
+    if (missing.length) {
+      throw new Error(`Cannot replay ${type} email fixture, missing values for: ${missing.join(', ')}`);
+    }
+    const fill = (text: string) => text.replace(/\{\{(\w+)\}\}/g, (placeholder, name) => values[name] ?? placeholder);
+
+    console.log(`📼 Replaying ${type} email fixture recorded at ${fixture.recordedAt}`);
+    return {
+      id: `fixture-${type}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      subject: fill(fixture.subject),
+      body: fill(fixture.text),
+      html: fixture.html !== undefined ? fill(fixture.html) : undefined,
+      from: fixture.from,
+      to: [to],
+      timestamp: new Date(),
+      headers: Object.fromEntries(Object.entries(fixture.headers).map(([name, value]) => [name, fill(value)]))
+    };
+  }
+
+  private pathFor(type: string): string {
+    return path.join(this.dir, `${type}.json`);
+  }
+
+  /**
+   * Replace the credentials in links with REDACTED, including those inside tracking payloads
+   */
+  private redactSecrets(text: string): string {
+    const base = EMAIL_CONFIG.LINK_PATTERNS.BASE.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    const trackingLink = new RegExp(`(${base}e/c/)([A-Za-z0-9_-]+)/[A-Za-z0-9_-]+`, 'g');
+    return this.redactParams(text.replace(trackingLink, (link, prefix: string, payload: string) =>
+      `${prefix}${this.redactTrackingPayload(payload)}/${REDACTED}`));
+  }
+
+  /**
+   * Keep a tracking payload's destination, without its secret parameters, and redact every other ID
+   */
+  private redactTrackingPayload(payload: string): string {
+    try {
+      const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      if (!decoded || typeof decoded !== 'object') return REDACTED;
+      const redacted = Object.fromEntries(Object.entries(decoded).map(([name, value]) => [
+        name,
+        typeof value !== 'string' ? value : name === 'href' ? this.redactParams(value) : REDACTED
+      ]));
+      return Buffer.from(JSON.stringify(redacted)).toString('base64url');
+    } catch {
+      return REDACTED;
+    }
+  }
+
+  /**
+   * Replace the values of EMAIL_CONFIG.FIXTURES.SECRET_PARAMS query parameters,
+   * also in HTML where parameters are separated by &amp;
+   */
+  private redactParams(text: string): string {
+    const names = EMAIL_CONFIG.FIXTURES.SECRET_PARAMS.join('|');
+    return text.replace(new RegExp(`([?&;](?:${names})=)[^&#\\s"'<>]+`, 'gi'), `$1${REDACTED}`);
+  }
+
+  /**
+   * Very short values would match inside unrelated words
+   */
+  private usable(value: string | undefined): value is string {
+    return !!value && value.trim().length > 1;
+  }
+
+  /**
+   * Replace each value with its placeholder, longest first so an address
+   * is replaced before the name it contains
+   */
+  private replaceValues(text: string, values: Record<string, string>): string {
+    const entries = Object.entries(values)
+      .filter(([, value]) => this.usable(value))
+      .sort(([, a], [, b]) => b.length - a.length);
+    return entries.reduce((result, [name, value]) => result.split(value).join(`{{${name}}}`), text);
+  }
+}
@@ -0,0 +1,104 @@
+import { simpleParser, AddressObject } from 'mailparser';
+
+/**
+ * Email Header Inspector
+ *
+ * Reads the header block of a raw MIME message the way a mail client would,
+ * to catch header injection through values the app puts in subjects:
+ * - Injected headers (X-Injected, Bcc, ...) or malformed header lines
+ * - More than one Subject header
+ * - A decoded subject spanning several lines
+ * - A subject that is not exactly what was expected (e.g. truncated)
+ * - Recipients other than the intended one
+ */
+
+export interface HeaderExpectation {
+  recipient: string;
+  subject?: string;             // Exact decoded subject
+  subjectContains?: string[];   // Parts the decoded subject must keep
+  forbiddenHeaders?: string[];  // Header names that must not exist
+}
+
+export interface HeaderInspection {
+  subject: string;        // Decoded
+  rawSubject: string;     // As sent, folded lines joined
+  headerNames: string[];
+  recipients: string[];   // To, Cc and Bcc addresses
+  findings: string[];
+}
+
+export class EmailHeaderInspector {
+  async inspect(raw: string, expected: HeaderExpectation): Promise<HeaderInspection> {
+    const headerBlock = raw.split(/\r?\n\r?\n/)[0];
+    const lines = this.unfold(headerBlock);
+    const findings: string[] = [];
+
+    const headerNames: string[] = [];
+    for (const line of lines) {
+      const name = line.match(/^([!-9;-~]+):/)?.[1];
+      if (name) {
+        headerNames.push(name);
+      } else {
+        findings.push(`Malformed header line: ${JSON.stringify(line.slice(0, 80))}`);
+      }
+    }
+
+    const rawSubjects = lines.filter(line => /^subject:/i.test(line)).map(line => line.replace(/^subject:\s*/i, ''));
+    if (rawSubjects.length !== 1) {
+      findings.push(`Expected one Subject header, found ${rawSubjects.length}`);
+    }
+
+    for (const forbidden of expected.forbiddenHeaders || []) {
+      if (headerNames.some(name => name.toLowerCase() === forbidden.toLowerCase())) {
+        findings.push(`Injected header: ${forbidden}`);
+      }
+    }
+
+    const parsed = await simpleParser(raw);
+    const subject = parsed.subject || '';
+    if (/[\r\n]/.test(subject)) {
+      findings.push(`Decoded subject spans several lines: ${JSON.stringify(subject)}`);
+    }
+    if (expected.subject !== undefined && subject !== expected.subject) {
+      findings.push(`Subject ${JSON.stringify(subject)} is not ${JSON.stringify(expected.subject)}`);
+    }
+    for (const part of expected.subjectContains || []) {
+      if (!subject.includes(part)) {
+        findings.push(`Subject ${JSON.stringify(subject)} lost ${JSON.stringify(part)}`);
+      }
+    }
+
+    const recipients = [parsed.to, parsed.cc, parsed.bcc]
+      .flatMap(field => this.addresses(field))
+      .map(address => address.toLowerCase());
+    const unexpected = recipients.filter(address => address !== expected.recipient.toLowerCase());
+    if (unexpected.length) {
+      findings.push(`Sent to unexpected recipient(s): ${unexpected.join(', ')}`);
+    }
+
+    return { subject, rawSubject: rawSubjects.join(' | '), headerNames, recipients, findings };
+  }
+
+  /**
+   * One entry per header, continuation lines joined
+   */
+  private unfold(headerBlock: string): string[] {
+    const lines: string[] = [];
+    for (const line of headerBlock.split(/\r?\n/)) {
+      if (/^[ \t]/.test(line) && lines.length) {
+        lines[lines.length - 1] += line;
+      } else if (line) {
+        lines.push(line);
+      }
+    }
+    return lines;
+  }
+
+  private addresses(field: AddressObject | AddressObject[] | undefined): string[] {
+    if (!field) return [];
+    return (Array.isArray(field) ? field : [field])
+      .flatMap(object => object.value)
+      .map(address => address.address || '')
+      .filter(Boolean);
+  }
+}
@@ -0,0 +1,241 @@
+import { TestInfo, expect } from '@playwright/test';
+import { EMAIL_CONFIG } from '../data/test.config';
+import { Email } from './providers/EmailProvider';
+import { EmailQuery, EmailSource, bodyMismatch, describeQuery, headerMismatch } from './providers/EmailQuery';
+
+/**
+ * Email Journey Recorder
+ *
+ * Collects every email a test user receives from the moment recording starts,
+ * then checks them against a declared sequence:
+ * - Each expected email arrives, in order
+ * - Within its latency SLA of a trigger (a marked milestone or an earlier step)
+ * - Nothing else arrives, e.g. no duplicate welcome emails
+ *
+ * The ordering/latency report is attached to the test as "email-journey".
+ *
+ * @example
+ * const journey = await emailHandler.startJourney(user.email);
+ * await paymentPage.completePayment(card);
+ * journey.mark('payment');
+ * await journey.expectSequence([
+ *   { name: 'welcome', subject: EMAIL_CONFIG.SUBJECTS.WELCOME, after: 'payment', within: EMAIL_CONFIG.JOURNEY.SLA.WELCOME }
+ * ], testInfo);
+ */
+
+export interface JourneyStep extends EmailQuery {
+  name: string;
+  after?: string;   // Milestone or earlier step the latency is measured from. Defaults to 'start'
+  within?: number;  // Latency SLA in ms
+}
+
+export interface JourneyEntry {
+  subject: string;
+  from: string;
+  receivedAt: string;
+  step?: string;
+  after?: string;
+  latencyMs?: number;
+  slaMs?: number;
+  status: 'ok' | 'late' | 'out-of-order' | 'duplicate' | 'unexpected';
+}
+
+export interface JourneyReport {
+  address: string;
+  startedAt: string;
+  milestones: Record<string, string>;
+  entries: JourneyEntry[];
+  missing: string[];
+  problems: string[];
+}
+
+export class EmailJourney {
+  private readonly milestones: Map<string, Date> = new Map();
+
+  constructor(
+    private readonly source: EmailSource,
+    private readonly inboxId: string,
+    readonly address: string,
+    private readonly delivers: boolean
+  ) {
+    this.mark('start');
+    console.log(`\n🧭 Recording email journey for: ${address}`);
+  }
+
+  /**
+   * Mark a milestone (e.g. 'payment') that steps can measure latency from
+   */
+  mark(name: string, at: Date = new Date()): void {
+    this.milestones.set(name, at);
+    console.log(`🧭 Journey milestone "${name}" at ${at.toISOString()}`);
+  }
+
+  /**
+   * All emails received since recording started, oldest first
+   */
+  async collect(): Promise<Email[]> {
+    const since = this.milestones.get('start')!.getTime() - EMAIL_CONFIG.JOURNEY.CLOCK_SKEW;
+    const emails = await this.source.listEmails(this.inboxId);
+    return emails.filter(email => email.timestamp.getTime() >= since);
+  }
+
+  /**
+   * Wait for the expected emails, then check order, latency and extras
+   *
+   * @param steps Expected emails, in the order they should arrive
+   * @param testInfo Report is attached here
+   * @param options.timeout Stop waiting for missing steps after this long (defaults to the largest SLA)
+   * @param options.settle Keep watching for extras this long after the last step arrived
+   * @param options.allowExtra Don't fail on emails that match no step
+   */
+  async expectSequence(steps: JourneyStep[], testInfo: TestInfo, options: {
+    timeout?: number;
+    settle?: number;
+    allowExtra?: boolean;
+  } = {}): Promise<JourneyReport> {
+    if (!this.delivers) {
+      console.log('🧭 No delivered emails - skipping journey check\n');
+      return this.emptyReport(steps);
+    }
+
+    const timeout = options.timeout ?? Math.max(...steps.map(step => step.within ?? EMAIL_CONFIG.TIMEOUTS.DEFAULT_WAIT));
+    const deadline = Date.now() + timeout;
+    const settle = options.settle ?? EMAIL_CONFIG.JOURNEY.SETTLE_TIME;
+    const fullEmails = new Map<string, Email>();
+
+    console.log(`\n🧭 Expecting journey: ${steps.map(step => step.name).join(' → ')}`);
+    let assigned = await this.assign(steps, await this.collect(), fullEmails);
+    while (assigned.size < steps.length && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, EMAIL_CONFIG.JOURNEY.POLL_INTERVAL));
+      assigned = await this.assign(steps, await this.collect(), fullEmails);
+    }
+    if (settle > 0) {
+      console.log(`🧭 Watching ${settle / 1000}s for unexpected emails`);
+      await new Promise(resolve => setTimeout(resolve, settle));
+    }
+
+    const report = await this.buildReport(steps, fullEmails, options.allowExtra ?? false);
+    await testInfo.attach('email-journey', {
+      body: JSON.stringify(report, null, 2),
+      contentType: 'application/json'
+    });
+    console.log(this.formatReport(report));
+
+    expect(report.problems, `Email journey for ${this.address}`).toEqual([]);
+    return report;
+  }
+
+  /**
+   * First matching email per step, in arrival order
+   */
+  private async assign(steps: JourneyStep[], emails: Email[], fullEmails: Map<string, Email>): Promise<Map<string, Email>> {
+    const assigned = new Map<string, Email>();
+    for (const step of steps) {
+      for (const email of emails) {
+        if (Array.from(assigned.values()).includes(email)) continue;
+        if (await this.matches(email, step, fullEmails)) {
+          assigned.set(step.name, email);
+          break;
+        }
+      }
+    }
+    return assigned;
+  }
+
+  private async matches(email: Email, step: JourneyStep, fullEmails: Map<string, Email>): Promise<boolean> {
+    if (headerMismatch(email, step)) return false;
+    if (!step.bodyContains) return true;
+    const full = fullEmails.get(email.id) || await this.source.getEmail(email.id);
+    fullEmails.set(email.id, full);
+    return !bodyMismatch(full, step);
+  }
+
+  private async buildReport(steps: JourneyStep[], fullEmails: Map<string, Email>, allowExtra: boolean): Promise<JourneyReport> {
+    const emails = await this.collect();
+    const assigned = await this.assign(steps, emails, fullEmails);
+    const problems: string[] = [];
+    const entries: JourneyEntry[] = [];
+
+    for (const email of emails) {
+      const step = steps.find(candidate => assigned.get(candidate.name) === email);
+      const entry: JourneyEntry = {
+        subject: email.subject,
+        from: email.from,
+        receivedAt: email.timestamp.toISOString(),
+        status: 'ok'
+      };
+
+      if (step) {
+        const anchorName = step.after || 'start';
+        const anchor = this.milestones.get(anchorName) || assigned.get(anchorName)?.timestamp;
+        entry.step = step.name;
+        entry.after = anchorName;
+        entry.slaMs = step.within;
+        if (anchor) {
+          entry.latencyMs = email.timestamp.getTime() - anchor.getTime();
+        } else {
+          problems.push(`"${step.name}" is measured after "${anchorName}", which never happened`);
+        }
+
+        const expectedIndex = steps.indexOf(step);
+        const arrivedBefore = steps.slice(expectedIndex + 1).some(later => {
+          const laterEmail = assigned.get(later.name);
+          return laterEmail && laterEmail.timestamp.getTime() < email.timestamp.getTime();
+        });
+        if (arrivedBefore) {
+          entry.status = 'out-of-order';
+          problems.push(`"${step.name}" arrived out of order`);
+        } else if (step.within !== undefined && entry.latencyMs !== undefined && entry.latencyMs > step.within) {
+          entry.status = 'late';
+          problems.push(`"${step.name}" arrived ${(entry.latencyMs / 1000).toFixed(1)}s after ${anchorName}, SLA is ${step.within / 1000}s`);
+        }
+      } else {
+        const duplicateOf = steps.find(candidate => !headerMismatch(email, candidate));
+        entry.step = duplicateOf?.name;
+        entry.status = duplicateOf ? 'duplicate' : 'unexpected';
+        if (duplicateOf) {
+          problems.push(`Duplicate "${duplicateOf.name}" email: "${email.subject}" at ${entry.receivedAt}`);
+        } else if (!allowExtra) {
+          problems.push(`Unexpected email: "${email.subject}" from ${email.from} at ${entry.receivedAt}`);
+        }
+      }
+      entries.push(entry);
+    }
+
+    const missing = steps.filter(step => !assigned.has(step.name)).map(step => step.name);
+    for (const name of missing) {
+      const step = steps.find(candidate => candidate.name === name)!;
+      problems.push(`Missing "${name}" email (${describeQuery(step)})`);
+    }
+
+    return {
+      address: this.address,
+      startedAt: this.milestones.get('start')!.toISOString(),
+      milestones: Object.fromEntries(Array.from(this.milestones.entries()).map(([name, at]) => [name, at.toISOString()])),
+      entries,
+      missing,
+      problems
+    };
+  }
+
+  private emptyReport(steps: JourneyStep[]): JourneyReport {
+    return {
+      address: this.address,
+      startedAt: this.milestones.get('start')!.toISOString(),
+      milestones: {},
+      entries: [],
+      missing: steps.map(step => step.name),
+      problems: []
+    };
+  }
+
+  private formatReport(report: JourneyReport): string {
+    const lines = report.entries.map(entry => {
+      const latency = entry.latencyMs !== undefined ? `${(entry.latencyMs / 1000).toFixed(1)}s after ${entry.after}` : '';
+      const sla = entry.slaMs !== undefined ? ` (SLA ${entry.slaMs / 1000}s)` : '';
+      return `  ${entry.status.padEnd(12)} ${entry.receivedAt}  ${entry.step || '-'}: "${entry.subject}" ${latency}${sla}`;
+    });
+    report.missing.forEach(name => lines.push(`  ${'missing'.padEnd(12)} ${name}`));
+    return `\n🧭 Email journey for ${report.address}:\n${lines.join('\n')}\n`;
+  }
+}
@@ -0,0 +1,223 @@
+import { TestInfo, expect } from '@playwright/test';
+import { EMAIL_CONFIG } from '../data/test.config';
+import { Email } from './providers/EmailProvider';
+
+/**
+ * Email HTML Linter
+ *
+ * Quality checks for transactional email templates:
+ * - Images have alt text, links and images are absolute https
+ * - Unsubscribe link and List-Unsubscribe header on recurring emails
+ * - HTML stays under the Gmail clipping size
+ * - Preheader text exists
+ * - No unresolved {firstName}-style placeholders
+ */
+
+export type EmailLintRule =
+  | 'html-part'
+  | 'image-alt'
+  | 'absolute-https'
+  | 'unsubscribe'
+  | 'gmail-clipping'
+  | 'preheader'
+  | 'placeholder';
+
+export interface EmailLintFinding {
+  rule: EmailLintRule;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface EmailLintReport {
+  emailId: string;
+  subject: string;
+  from: string;
+  htmlBytes: number;
+  findings: EmailLintFinding[];
+}
+
+// {firstName}, {{ first_name }}, {{customer.name}} and {% liquid %} tags
+const PLACEHOLDER_PATTERN = /\{\{?\s*[A-Za-z_][\w.]*\s*\}\}?|\{%.*?%\}/g;
+
+export class EmailLinter {
+  /**
+   * Lint an email's HTML part
+   * Emails without HTML get a single error finding
+   */
+  lint(email: Email): EmailLintReport {
+    const html = email.html || '';
+    const report: EmailLintReport = {
+      emailId: email.id,
+      subject: email.subject,
+      from: email.from,
+      htmlBytes: Buffer.byteLength(html, 'utf8'),
+      findings: []
+    };
+
+    if (!html) {
+      report.findings.push({ rule: 'html-part', severity: 'error', message: 'Email has no HTML part' });
+      return report;
+    }
+
+    report.findings.push(
+      ...this.checkImages(html),
+      ...this.checkLinks(html),
+      ...this.checkUnsubscribe(email, html),
+      ...this.checkSize(report.htmlBytes),
+      ...this.checkPreheader(html),
+      ...this.checkPlaceholders(email, html)
+    );
+
+    const errors = report.findings.filter(f => f.severity === 'error').length;
+    console.log(`🧹 Linted "${email.subject}": ${errors} error(s), ${report.findings.length - errors} warning(s)`);
+    return report;
+  }
+
+  /**
+   * Attach lint reports to the Playwright report
+   * Fails the test (softly) on errors when EMAIL_CONFIG.LINT.STRICT is set
+   */
+  async attachReports(reports: EmailLintReport[], testInfo: TestInfo): Promise<void> {
+    if (reports.length === 0) return;
+
+    await testInfo.attach('email-lint', {
+      body: JSON.stringify(reports, null, 2),
+      contentType: 'application/json'
+    });
+
+    if (EMAIL_CONFIG.LINT.STRICT) {
+      const errors = reports.flatMap(report =>
+        report.findings
+          .filter(finding => finding.severity === 'error')
+          .map(finding => `"${report.subject}" [${finding.rule}] ${finding.message}`)
+      );
+      expect.soft(errors, 'Email lint errors').toEqual([]);
+    }
+  }
+
+  private checkImages(html: string): EmailLintFinding[] {
+    const findings: EmailLintFinding[] = [];
+    for (const tag of html.match(/<img\b[^>]*>/gi) || []) {
+      const src = this.attribute(tag, 'src') || '(no src)';
+      const alt = this.attribute(tag, 'alt');
+      if (alt === undefined) {
+        findings.push({ rule: 'image-alt', severity: 'error', message: `Image ${src} has no alt attribute` });
+      } else if (!alt.trim()) {
+        findings.push({ rule: 'image-alt', severity: 'warning', message: `Image ${src} has empty alt text` });
+      }
+      if (!src.startsWith('https://')) {
+        findings.push({ rule: 'absolute-https', severity: 'error', message: `Image source is not absolute https: ${src}` });
+      }
+    }
+    return findings;
+  }
+
+  private checkLinks(html: string): EmailLintFinding[] {
+    const findings: EmailLintFinding[] = [];
+    for (const tag of html.match(/<a\b[^>]*>/gi) || []) {
+      const href = this.attribute(tag, 'href');
+      if (href === undefined) continue;
+      let scheme: string | undefined;
+      try {
+        scheme = new URL(href).protocol;
+      } catch {
+        scheme = undefined;  // Relative or malformed
+      }
+      if (!scheme || !EMAIL_CONFIG.LINT.ALLOWED_LINK_SCHEMES.includes(scheme)) {
+        findings.push({ rule: 'absolute-https', severity: 'error', message: `Link is not absolute https: ${href || '(empty)'}` });
+      }
+    }
+    return findings;
+  }
+
+  private checkUnsubscribe(email: Email, html: string): EmailLintFinding[] {
+    const required = EMAIL_CONFIG.LINT.UNSUBSCRIBE_REQUIRED_SENDERS.some(sender =>
+      email.from.toLowerCase().includes(sender.toLowerCase())
+    );
+    if (!required) return [];
+
+    const findings: EmailLintFinding[] = [];
+    const hasLink = (html.match(/<a\b[^>]*>[\s\S]*?<\/a>/gi) || []).some(link => /unsubscribe/i.test(link));
+    if (!hasLink) {
+      findings.push({ rule: 'unsubscribe', severity: 'error', message: 'No unsubscribe link in the HTML' });
+    }
+    if (!this.header(email, 'list-unsubscribe')) {
+      findings.push({ rule: 'unsubscribe', severity: 'error', message: 'No List-Unsubscribe header' });
+    }
+    return findings;
+  }
+
+  private checkSize(htmlBytes: number): EmailLintFinding[] {
+    const limit = EMAIL_CONFIG.LINT.MAX_HTML_BYTES;
+    if (htmlBytes > limit) {
+      return [{
+        rule: 'gmail-clipping',
+        severity: 'error',
+        message: `HTML is ${(htmlBytes / 1024).toFixed(1)}KB, Gmail clips above ${limit / 1024}KB`
+      }];
+    }
+    if (htmlBytes > limit * 0.9) {
+      return [{
+        rule: 'gmail-clipping',
+        severity: 'warning',
+        message: `HTML is ${(htmlBytes / 1024).toFixed(1)}KB, close to the ${limit / 1024}KB Gmail limit`
+      }];
+    }
+    return [];
+  }
+
+  /**
+   * A preheader is a hidden element at the top of the body whose text shows in inbox previews
+   */
+  private checkPreheader(html: string): EmailLintFinding[] {
+    const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] || html;
+    const firstElement = body.match(/<(div|span|p|td)\b([^>]*)>([\s\S]*?)<\/\1>/i);
+    const byClass = body.match(/<(\w+)\b[^>]*class="[^"]*preheader[^"]*"[^>]*>([\s\S]*?)<\/\1>/i);
+
+    let text: string | undefined;
+    if (byClass) {
+      text = byClass[2];
+    } else if (firstElement && /display\s*:\s*none/i.test(firstElement[2])) {
+      text = firstElement[3];
+    }
+
+    if (text === undefined) {
+      return [{ rule: 'preheader', severity: 'error', message: 'No preheader element found' }];
+    }
+    if (!this.stripTags(text).trim()) {
+      return [{ rule: 'preheader', severity: 'error', message: 'Preheader is empty' }];
+    }
+    return [];
+  }
+
+  private checkPlaceholders(email: Email, html: string): EmailLintFinding[] {
+    const sources = {
+      subject: email.subject,
+      html: html.replace(/<(style|script)\b[\s\S]*?<\/\1>/gi, ''),  // Includes attributes, e.g. hrefs
+      text: email.body
+    };
+    const findings: EmailLintFinding[] = [];
+    for (const [part, content] of Object.entries(sources)) {
+      const leaks = Array.from(new Set(content.match(PLACEHOLDER_PATTERN) || []));
+      if (leaks.length) {
+        findings.push({ rule: 'placeholder', severity: 'error', message: `Unresolved placeholder(s) in ${part}: ${leaks.join(', ')}` });
+      }
+    }
+    return findings;
+  }
+
+  private attribute(tag: string, name: string): string | undefined {
+    const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+    if (!match) return undefined;
+    return match[1] ?? match[2] ?? match[3];
+  }
+
+  private header(email: Email, name: string): string | undefined {
+    const entry = Object.entries(email.headers || {}).find(([key]) => key.toLowerCase() === name);
+    return entry?.[1];
+  }
+
+  private stripTags(html: string): string {
+    return html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ');
+  }
+}
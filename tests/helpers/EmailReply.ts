@@ -0,0 +1,114 @@
+import { EMAIL_CONFIG } from '../data/test.config';
+import { Email } from './providers/EmailProvider';
+
+/**
+ * Email Reply Composition
+ *
+ * Builds replies the way mail clients do - the answer on top, then a signature
+ * and the quoted original - and strips them back down to the answer, which is
+ * what the app should store when it ingests a reply.
+ */
+
+export type ReplyFormat = 'text' | 'html';
+
+export interface ComposedReply {
+  body: string;
+  isHTML: boolean;
+}
+
+/**
+ * Compose a reply to an email
+ * @param original The email being replied to
+ * @param answer What the user writes
+ * @param options.format Plain text or HTML reply
+ * @param options.quoteOriginal Include the quoted original below the answer (default true)
+ * @param options.signature Signature below the answer; empty for none
+ */
+export function composeReply(original: Email, answer: string, options: {
+  format?: ReplyFormat;
+  quoteOriginal?: boolean;
+  signature?: string;
+} = {}): ComposedReply {
+  const quoteOriginal = options.quoteOriginal ?? true;
+  const signature = options.signature ?? EMAIL_CONFIG.REPLIES.SIGNATURE;
+  const attribution = `On ${original.timestamp.toUTCString()}, ${original.from} wrote:`;
+
+  if (options.format === 'html') {
+    const parts = [`<div dir="ltr">${escapeHtml(answer).replace(/\n/g, '<br>')}</div>`];
+    if (signature) {
+      parts.push(`<div class="gmail_signature">-- <br>${escapeHtml(signature)}</div>`);
+    }
+    if (quoteOriginal) {
+      const quoted = original.html || escapeHtml(original.body).replace(/\n/g, '<br>');
+      parts.push(`<div class="gmail_quote"><div class="gmail_attr">${escapeHtml(attribution)}<br></div>` +
+        `<blockquote class="gmail_quote" style="margin:0 0 0 .8ex;border-left:1px #ccc solid;padding-left:1ex">${quoted}</blockquote></div>`);
+    }
+    return { body: parts.join('\n'), isHTML: true };
+  }
+
+  const parts = [answer];
+  if (signature) {
+    parts.push(`-- \n${signature}`);
+  }
+  if (quoteOriginal) {
+    const quoted = original.body.split('\n').map(line => `> ${line}`).join('\n');
+    parts.push(`${attribution}\n${quoted}`);
+  }
+  return { body: parts.join('\n\n'), isHTML: false };
+}
+
+/**
+ * The answer part of a reply: quoted history and signature removed
+ */
+export function stripReply(body: string, isHTML: boolean = false): string {
+  const text = isHTML ? htmlToText(cutHtmlAtQuote(body)) : body;
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const cut = lines.findIndex(line =>
+    /^On .+wrote:\s*$/.test(line.trim()) ||             // Gmail/Apple attribution
+    /^-{2,}\s*Original Message\s*-{2,}$/i.test(line.trim()) ||  // Outlook
+    /^From:\s.+/.test(line) ||                           // Outlook header block
+    /^>/.test(line) ||                                   // Quoted lines
+    /^--\s?$/.test(line) ||                              // Signature delimiter
+    /^Sent from my /.test(line.trim())                   // Mobile signature
+  );
+  return (cut >= 0 ? lines.slice(0, cut) : lines).join('\n').trim();
+}
+
+/**
+ * Compare answer texts ignoring whitespace differences
+ */
+export function normalizeAnswer(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Drop everything from the first quote or signature block of an HTML reply
+ */
+function cutHtmlAtQuote(html: string): string {
+  const markers = [/<div[^>]+class="[^"]*gmail_(quote|signature)/i, /<blockquote/i, /<div[^>]+id="(appendonsend|divRplyFwdMsg)"/i];
+  const positions = markers.map(marker => html.search(marker)).filter(position => position >= 0);
+  return positions.length ? html.slice(0, Math.min(...positions)) : html;
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
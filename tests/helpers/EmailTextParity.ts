@@ -0,0 +1,183 @@
+import { TestInfo, expect } from '@playwright/test';
+import { EMAIL_CONFIG } from '../data/test.config';
+
+/**
+ * Email Text/HTML Parity
+ *
+ * Some mail clients only show the plain text alternative, so it has to carry
+ * what the HTML part does:
+ * - A non-empty text part exists
+ * - Every CTA link in the HTML is reachable from the text, either as the same
+ *   URL or a link on the same host next to the CTA label (tracking links
+ *   differ per part)
+ * - Personalization (e.g. receiver and giver names) is in the text too
+ * - Most of the HTML wording is in the text (warning only)
+ */
+
+export type EmailParityRule = 'text-part' | 'cta-link' | 'personalization' | 'content';
+
+export interface EmailParityFinding {
+  rule: EmailParityRule;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface CtaLink {
+  label: string;
+  href: string;
+  textUrl?: string;  // Where the link is in the text part, if found
+}
+
+export interface EmailParityReport {
+  subject: string;
+  textLength: number;
+  coverage: number;  // Share of HTML words found in the text
+  links: CtaLink[];
+  findings: EmailParityFinding[];
+}
+
+export interface EmailParts {
+  subject: string;
+  text?: string;
+  html?: string;
+}
+
+export class EmailTextParity {
+  /**
+   * Compare the text part of an email with its HTML part
+   * @param personalization Values that must appear in the text, e.g. { receiverFirstName: 'Jane' }
+   */
+  check(email: EmailParts, personalization: Record<string, string | undefined> = {}): EmailParityReport {
+    const text = EmailTextParity.normalize(email.text || '');
+    const htmlText = EmailTextParity.normalize(EmailTextParity.htmlToText(email.html || ''));
+    const report: EmailParityReport = {
+      subject: email.subject,
+      textLength: text.length,
+      coverage: 0,
+      links: [],
+      findings: []
+    };
+
+    if (!text) {
+      report.findings.push({
+        rule: 'text-part',
+        severity: 'error',
+        message: email.text === undefined ? 'Email has no plain text part' : 'Plain text part is empty'
+      });
+      return report;
+    }
+
+    report.links = this.ctaLinks(email.html || '').map(link => ({ ...link, textUrl: this.findInText(email.text!, link) }));
+    for (const link of report.links.filter(link => !link.textUrl)) {
+      report.findings.push({ rule: 'cta-link', severity: 'error', message: `CTA "${link.label}" (${link.href}) is missing from the text part` });
+    }
+
+    for (const [name, value] of Object.entries(personalization)) {
+      if (!value) continue;
+      if (!text.toLowerCase().includes(value.toLowerCase())) {
+        const inHtml = htmlText.toLowerCase().includes(value.toLowerCase());
+        report.findings.push({
+          rule: 'personalization',
+          severity: 'error',
+          message: `${name} "${value}" is missing from the text part${inHtml ? ' but in the HTML' : ''}`
+        });
+      }
+    }
+
+    report.coverage = this.coverage(htmlText, text);
+    if (htmlText && report.coverage < EMAIL_CONFIG.TEXT_PARITY.MIN_COVERAGE) {
+      report.findings.push({
+        rule: 'content',
+        severity: 'warning',
+        message: `Text part has ${(report.coverage * 100).toFixed(0)}% of the HTML wording, expected ${EMAIL_CONFIG.TEXT_PARITY.MIN_COVERAGE * 100}%`
+      });
+    }
+
+    const errors = report.findings.filter(f => f.severity === 'error').length;
+    console.log(`📝 Text parity of "${email.subject}": ${report.links.length} CTA(s), ${errors} error(s)`);
+    return report;
+  }
+
+  /**
+   * Attach a parity report and fail on errors
+   */
+  async verify(report: EmailParityReport, testInfo: TestInfo): Promise<void> {
+    await testInfo.attach('email-text-parity', {
+      body: JSON.stringify(report, null, 2),
+      contentType: 'application/json'
+    });
+    const errors = report.findings.filter(f => f.severity === 'error').map(f => `[${f.rule}] ${f.message}`);
+    expect(errors, `Text part of "${report.subject}"`).toEqual([]);
+  }
+
+  /**
+   * Comparable form of a part: entities decoded, whitespace collapsed
+   */
+  static normalize(text: string): string {
+    return text
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&rsquo;/g, "'")
+      .replace(/&amp;/g, '&')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  static htmlToText(html: string): string {
+    return html
+      .replace(/<(style|script|title)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<(\w+)\b[^>]*class="[^"]*preheader[^"]*"[^>]*>[\s\S]*?<\/\1>/i, '')
+      .replace(/<br\s*\/?>|<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ');
+  }
+
+  /**
+   * Links with a visible label; image-only links (logos, social icons) are decoration
+   */
+  private ctaLinks(html: string): Array<{ label: string; href: string }> {
+    const links: Array<{ label: string; href: string }> = [];
+    for (const anchor of html.match(/<a\b[^>]*>[\s\S]*?<\/a>/gi) || []) {
+      const href = anchor.match(/\shref\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+      const url = href ? (href[1] ?? href[2]).replace(/&amp;/g, '&') : '';
+      const label = EmailTextParity.normalize(anchor.replace(/<[^>]+>/g, ' '));
+      if (/^https?:\/\//i.test(url) && label) {
+        links.push({ label, href: url });
+      }
+    }
+    return links;
+  }
+
+  /**
+   * The same URL, or a URL on the same host shortly after the CTA label
+   */
+  private findInText(text: string, link: { label: string; href: string }): string | undefined {
+    if (text.includes(link.href)) return link.href;
+
+    const host = new URL(link.href).host;
+    const lower = text.toLowerCase();
+    let at = lower.indexOf(link.label.toLowerCase());
+    while (at >= 0) {
+      const window = text.slice(at + link.label.length, at + link.label.length + EMAIL_CONFIG.TEXT_PARITY.LABEL_DISTANCE);
+      const url = (window.match(/https?:\/\/[^\s)<>\]]+/g) || []).find(candidate => {
+        try {
+          return new URL(candidate).host === host;
+        } catch {
+          return false;
+        }
+      });
+      if (url) return url;
+      at = lower.indexOf(link.label.toLowerCase(), at + 1);
+    }
+    return undefined;
+  }
+
+  private coverage(htmlText: string, text: string): number {
+    const words = (value: string) => value.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+    const htmlWords = Array.from(new Set(words(htmlText)));
+    if (!htmlWords.length) return 1;
+    const textWords = new Set(words(text));
+    return htmlWords.filter(word => textWords.has(word)).length / htmlWords.length;
+  }
+}
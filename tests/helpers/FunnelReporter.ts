@@ -0,0 +1,51 @@
+import type { Reporter, TestCase, TestResult, TestStep } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FunnelHistory, FunnelSample, parseFunnelStep } from './FunnelTiming';
+import { getRunId } from './TestRun';
+import { FUNNEL_TIMING } from '../data/performance.config';
+
+/**
+ * Funnel Reporter
+ *
+ * Collects the "funnel: <step>" test steps of this run (see FunnelTiming),
+ * adds them to the timing history and prints the p50/p95 table per project
+ * over the latest runs. The table is also written to test-results/funnel-report.md.
+ */
+class FunnelReporter implements Reporter {
+  private samples: FunnelSample[] = [];
+
+  onStepEnd(test: TestCase, result: TestResult, step: TestStep) {
+    const funnelStep = parseFunnelStep(step.title);
+    if (!funnelStep) return;
+    this.samples.push({
+      runId: getRunId(),
+      project: test.parent.project()?.name || 'default',
+      step: funnelStep,
+      duration: step.duration,
+      ok: !step.error,
+      test: test.titlePath().slice(2).join(' › '),
+      at: step.startTime.toISOString()
+    });
+  }
+
+  onEnd() {
+    if (!this.samples.length) return;
+
+    const history = new FunnelHistory();
+    history.append(this.samples);
+    const samples = history.samples();
+    const runs = new Set(samples.map(sample => sample.runId)).size;
+    const table = FunnelHistory.formatTable(FunnelHistory.stats(samples, getRunId()), runs);
+
+    fs.mkdirSync(path.dirname(FUNNEL_TIMING.REPORT_FILE), { recursive: true });
+    fs.writeFileSync(FUNNEL_TIMING.REPORT_FILE, `## Order funnel timings\n\n${table}\n`);
+    console.log(`\n⏱️ Order funnel timings (${FUNNEL_TIMING.REPORT_FILE})\n\n${table}\n`);
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
+
+export default FunnelReporter;
@@ -0,0 +1,132 @@
+import { test } from '@playwright/test';
+import * as fs from 'fs';
+import { getStatePath } from './TestRun';
+import { FUNNEL_TIMING } from '../data/performance.config';
+
+/**
+ * Funnel Timing
+ *
+ * The order page objects run each funnel step (home CTA, order type, details,
+ * Stripe checkout, dashboard) as a boxed `test.step` titled "funnel: <step>".
+ * FunnelReporter picks these steps up with their duration and whether they
+ * failed, keeps them per run in .test-state/funnel-timings.jsonl, and prints a
+ * p50/p95 table per project over the latest runs, so a step getting slower
+ * shows up as a trend. Outside a test (e.g. scripts) steps just run.
+ */
+
+export const FUNNEL_STEPS = ['home', 'order-type', 'details', 'payment', 'dashboard'] as const;
+
+export type FunnelStep = typeof FUNNEL_STEPS[number];
+
+export const FUNNEL_STEP_PREFIX = 'funnel: ';
+
+export interface FunnelSample {
+  runId: string;
+  project: string;
+  step: FunnelStep;
+  duration: number;  // ms
+  ok: boolean;       // false when the step threw: the funnel stopped there
+  test: string;
+  at: string;
+}
+
+export interface FunnelStepStats {
+  project: string;
+  step: FunnelStep;
+  started: number;
+  failed: number;
+  p50?: number;      // Over the successful samples
+  p95?: number;
+  latestP50?: number; // This run only
+}
+
+/**
+ * Run a funnel step, timed as a test step when inside a test
+ */
+export async function funnelStep<T>(step: FunnelStep, body: () => Promise<T>): Promise<T> {
+  try {
+    test.info();
+  } catch {
+    return body();
+  }
+  return test.step(`${FUNNEL_STEP_PREFIX}${step}`, body, { box: true });
+}
+
+/**
+ * Funnel step from a test step title, or undefined for other steps
+ */
+export function parseFunnelStep(title: string): FunnelStep | undefined {
+  if (!title.startsWith(FUNNEL_STEP_PREFIX)) return undefined;
+  return FUNNEL_STEPS.find(step => step === title.slice(FUNNEL_STEP_PREFIX.length));
+}
+
+/**
+ * Nearest-rank percentile
+ */
+export function percentile(values: number[], p: number): number | undefined {
+  if (!values.length) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil(p / 100 * sorted.length) - 1)];
+}
+
+export class FunnelHistory {
+  constructor(readonly filePath: string = getStatePath(FUNNEL_TIMING.HISTORY_FILE)) {}
+
+  append(samples: FunnelSample[]): void {
+    fs.appendFileSync(this.filePath, samples.map(sample => JSON.stringify(sample) + '\n').join(''));
+  }
+
+  /**
+   * Samples of the latest runs, oldest first
+   */
+  samples(runs: number = FUNNEL_TIMING.HISTORY_RUNS): FunnelSample[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    const samples: FunnelSample[] = fs.readFileSync(this.filePath, 'utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+    const runIds = [...new Set(samples.map(sample => sample.runId))].slice(-runs);
+    return samples.filter(sample => runIds.includes(sample.runId));
+  }
+
+  /**
+   * Per project and step, in funnel order
+   * @param latestRunId Run whose p50 is shown next to the history's
+   */
+  static stats(samples: FunnelSample[], latestRunId?: string): FunnelStepStats[] {
+    const projects = [...new Set(samples.map(sample => sample.project))].sort();
+    return projects.flatMap(project => FUNNEL_STEPS
+      .map(step => {
+        const stepSamples = samples.filter(sample => sample.project === project && sample.step === step);
+        const durations = stepSamples.filter(sample => sample.ok).map(sample => sample.duration);
+        const latest = stepSamples.filter(sample => sample.ok && sample.runId === latestRunId).map(sample => sample.duration);
+        return {
+          project,
+          step,
+          started: stepSamples.length,
+          failed: stepSamples.filter(sample => !sample.ok).length,
+          p50: percentile(durations, 50),
+          p95: percentile(durations, 95),
+          latestP50: percentile(latest, 50)
+        };
+      })
+      .filter(stats => stats.started > 0));
+  }
+
+  /**
+   * Markdown table, one section per project
+   */
+  static formatTable(stats: FunnelStepStats[], runs: number): string {
+    const seconds = (ms?: number) => ms === undefined ? '-' : `${(ms / 1000).toFixed(1)}s`;
+    const projects = [...new Set(stats.map(row => row.project))];
+    return projects.map(project => [
+      `### ${project} (last ${runs} run(s))`,
+      '',
+      '| Step | This run p50 | p50 | p95 | Started | Failed | Drop-off |',
+      '|------|-------------:|----:|----:|--------:|-------:|---------:|',
+      ...stats.filter(row => row.project === project).map(row =>
+        `| ${row.step} | ${seconds(row.latestP50)} | ${seconds(row.p50)} | ${seconds(row.p95)} | ${row.started} | ${row.failed} | ` +
+        `${Math.round(row.failed / row.started * 100)}% |`)
+    ].join('\n')).join('\n\n');
+  }
+}
@@ -1,4 +1,5 @@
 import type { PNG as PNGType } from 'pngjs';
+import { Page } from '@playwright/test';
 
 interface ComparisonResult {
   mismatchedPixels: number;
@@ -59,3 +60,68 @@ export async function compareImages(
 
   return { mismatchedPixels };
 }
+
+export interface ImageData {
+  content: Buffer;
+  contentType: string;
+}
+
+/**
+ * Compare what two images show, regardless of format, compression and size
+ * Both are drawn to the same small square thumbnail in the browser and compared with pixelmatch
+ * @param page Any page; a blank page in the same context does the drawing
+ * @param size Thumbnail width and height in pixels
+ * @returns Share of thumbnail pixels that differ (0 to 1)
+ */
+export async function compareImageContent(
+  page: Page,
+  expected: ImageData,
+  actual: ImageData,
+  size: number
+): Promise<number> {
+  const canvasPage = await page.context().newPage();
+  try {
+    const [expectedThumbnail, actualThumbnail] = [
+      await renderThumbnail(canvasPage, expected, size),
+      await renderThumbnail(canvasPage, actual, size)
+    ];
+    const { mismatchedPixels } = await compareImages(expectedThumbnail, actualThumbnail, 0.1);
+    return mismatchedPixels / (size * size);
+  } finally {
+    await canvasPage.close();
+  }
+}
+
+/**
+ * Create a distinctive PNG to attach to emails
+ * @param variant Picks the colours and label, so several images differ from each other
+ * @returns The file path
+ */
+export async function createTestImage(page: Page, filePath: string, variant: number = 0): Promise<string> {
+  const hue = (variant * 137) % 360;
+  const imagePage = await page.context().newPage();
+  try {
+    await imagePage.setContent(`
+      <div id="image" style="width:320px;height:240px;display:flex;align-items:center;justify-content:center;
+        background:linear-gradient(135deg, hsl(${hue},80%,45%), hsl(${(hue + 120) % 360},80%,70%));
+        font:bold 48px sans-serif;color:#fff">#${variant + 1}</div>`);
+    await imagePage.locator('#image').screenshot({ path: filePath });
+    return filePath;
+  } finally {
+    await imagePage.close();
+  }
+}
+
+async function renderThumbnail(page: Page, image: ImageData, size: number): Promise<Buffer> {
+  const dataUrl = await page.evaluate(async ({ src, size }) => {
+    const img = new Image();
+    img.src = src;
+    await img.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    canvas.getContext('2d')!.drawImage(img, 0, 0, size, size);
+    return canvas.toDataURL('image/png');
+  }, { src: `data:${image.contentType};base64,${image.content.toString('base64')}`, size });
+  return Buffer.from(dataUrl.split(',')[1], 'base64');
+}
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import { EMAIL_CONFIG } from '../data/test.config';
+import { getRunId, getStatePath } from './TestRun';
+
+/**
+ * Inbox Ledger
+ *
+ * Append-only record of which MailSlurp inboxes were created, which tests used
+ * them and when they were deleted. One JSON line per event, so parallel workers
+ * can append safely. Used by the global teardown and the purge command.
+ */
+
+export interface InboxLedgerEvent {
+  event: 'created' | 'used' | 'deleted';
+  inboxId: string;
+  emailAddress: string;
+  runId: string;
+  at: string;
+  test?: string;
+  worker?: number;
+}
+
+export interface InboxRecord {
+  inboxId: string;
+  emailAddress: string;
+  runId: string;
+  createdAt: string;
+  tests: string[];
+  deletedAt?: string;
+}
+
+export class InboxLedger {
+  constructor(readonly filePath: string = getStatePath(EMAIL_CONFIG.INBOX_POOL.LEDGER_FILE)) {}
+
+  created(inboxId: string, emailAddress: string): void {
+    this.append({ event: 'created', inboxId, emailAddress, worker: this.worker() });
+  }
+
+  used(inboxId: string, emailAddress: string, test: string): void {
+    this.append({ event: 'used', inboxId, emailAddress, test, worker: this.worker() });
+  }
+
+  deleted(inboxId: string, emailAddress: string): void {
+    this.append({ event: 'deleted', inboxId, emailAddress });
+  }
+
+  /**
+   * All events, oldest first
+   */
+  read(): InboxLedgerEvent[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    return fs.readFileSync(this.filePath, 'utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+  }
+
+  /**
+   * Current state of every inbox in the ledger
+   */
+  inboxes(): InboxRecord[] {
+    const records = new Map<string, InboxRecord>();
+    for (const event of this.read()) {
+      const record = records.get(event.inboxId) || {
+        inboxId: event.inboxId,
+        emailAddress: event.emailAddress,
+        runId: event.runId,
+        createdAt: event.at,
+        tests: []
+      };
+      if (event.event === 'used' && event.test) record.tests.push(event.test);
+      if (event.event === 'deleted') record.deletedAt = event.at;
+      if (event.emailAddress) record.emailAddress = event.emailAddress;
+      records.set(event.inboxId, record);
+    }
+    return Array.from(records.values());
+  }
+
+  /**
+   * Inboxes created during a run that still exist
+   */
+  openInboxes(runId: string = getRunId()): InboxRecord[] {
+    return this.inboxes().filter(record => record.runId === runId && !record.deletedAt);
+  }
+
+  /**
+   * Playwright worker index, when called from a worker
+   */
+  private worker(): number | undefined {
+    return process.env.TEST_WORKER_INDEX !== undefined ? parseInt(process.env.TEST_WORKER_INDEX) : undefined;
+  }
+
+  private append(entry: Omit<InboxLedgerEvent, 'runId' | 'at'>): void {
+    const event: InboxLedgerEvent = { ...entry, runId: getRunId(), at: new Date().toISOString() };
+    fs.appendFileSync(this.filePath, JSON.stringify(event) + '\n');
+  }
+}
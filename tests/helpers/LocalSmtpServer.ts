@@ -0,0 +1,179 @@
+/**
+ * Local SMTP Capture Server
+ *
+ * In-process SMTP listener backing EmailMode.LOCAL_SMTP:
+ * - Accepts every message without authentication or TLS
+ * - Parses the real MIME message (text, HTML, headers, attachments)
+ * - Stores messages per envelope recipient so each test user has its own inbox
+ *
+ * Point the application (or a local stand-in) at LOCAL_SMTP_HOST:LOCAL_SMTP_PORT.
+ * Each Playwright worker listens on PORT + TEST_PARALLEL_INDEX so parallel
+ * workers never fight over the same socket.
+ */
+
+import { SMTPServer, SMTPServerDataStream, SMTPServerSession } from 'smtp-server';
+import { simpleParser } from 'mailparser';
+import { EMAIL_CONFIG } from '../data/test.config';
+
+/**
+ * A message captured by the local SMTP server
+ */
+export interface CapturedEmail {
+  id: string;
+  subject: string;
+  from: string;
+  to: string[];
+  text: string;
+  html?: string;
+  headers: Record<string, string>;
+  attachments: {
+    filename?: string;
+    contentType: string;
+    content: Buffer;
+  }[];
+  raw: string;
+  receivedAt: Date;
+}
+
+export class LocalSmtpServer {
+  private static readonly instances: Map<string, LocalSmtpServer> = new Map();
+
+  private server: SMTPServer | null = null;
+  private starting: Promise<void> | null = null;
+  private readonly messages: Map<string, CapturedEmail[]> = new Map(); // recipient -> messages
+  private sequence = 0;
+
+  constructor(readonly port: number, readonly host: string = '127.0.0.1') {}
+
+  /**
+   * Get the server shared by everything in this worker process
+   * The listener is started lazily by start()
+   */
+  static shared(
+    port: number = EMAIL_CONFIG.LOCAL_SMTP.PORT + parseInt(process.env.TEST_PARALLEL_INDEX || '0'),
+    host: string = EMAIL_CONFIG.LOCAL_SMTP.HOST
+  ): LocalSmtpServer {
+    const key = `${host}:${port}`;
+    let instance = LocalSmtpServer.instances.get(key);
+    if (!instance) {
+      instance = new LocalSmtpServer(port, host);
+      LocalSmtpServer.instances.set(key, instance);
+    }
+    return instance;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return this.starting ?? undefined;
+    }
+
+    console.log(`\n📮 Starting local SMTP server on ${this.host}:${this.port}`);
+    this.server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS', 'AUTH'],
+      logger: false,
+      size: 25 * 1024 * 1024,
+      onData: (stream, session, callback) => {
+        this.capture(stream, session)
+          .then(() => callback())
+          .catch(error => callback(error));
+      }
+    });
+
+    const server = this.server;
+    this.starting = new Promise<void>((resolve, reject) => {
+      server.on('error', reject);
+      server.listen(this.port, this.host, () => {
+        // Don't keep the worker process alive just for the listener
+        server.server.unref();
+        console.log(`📮 Local SMTP server listening on ${this.host}:${this.port}\n`);
+        resolve();
+      });
+    });
+
+    try {
+      await this.starting;
+    } catch (error) {
+      this.server = null;
+      throw new Error(`Failed to start local SMTP server on ${this.host}:${this.port}: ${error}`);
+    } finally {
+      this.starting = null;
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    console.log(`📮 Local SMTP server on ${this.host}:${this.port} stopped`);
+  }
+
+  /**
+   * All messages delivered to an address, oldest first
+   */
+  getMessages(address: string): CapturedEmail[] {
+    return [...(this.messages.get(address.toLowerCase()) || [])];
+  }
+
+  getMessage(id: string): CapturedEmail | undefined {
+    for (const messages of this.messages.values()) {
+      const message = messages.find(m => m.id === id);
+      if (message) return message;
+    }
+    return undefined;
+  }
+
+  /**
+   * Drop captured messages for one address, or for every address
+   */
+  clear(address?: string): void {
+    if (address) {
+      this.messages.delete(address.toLowerCase());
+    } else {
+      this.messages.clear();
+    }
+  }
+
+  private async capture(stream: SMTPServerDataStream, session: SMTPServerSession): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString('utf8');
+    const parsed = await simpleParser(raw);
+
+    const headers: Record<string, string> = {};
+    for (const { key, line } of parsed.headerLines) {
+      // Keep the first occurrence, like most clients display it
+      if (!(key in headers)) {
+        headers[key] = line.slice(line.indexOf(':') + 1).trim();
+      }
+    }
+
+    const recipients = session.envelope.rcptTo.map(rcpt => rcpt.address.toLowerCase());
+    const message: CapturedEmail = {
+      id: `local-${Date.now()}-${++this.sequence}`,
+      subject: parsed.subject || '',
+      from: parsed.from?.value[0]?.address || (session.envelope.mailFrom ? session.envelope.mailFrom.address : ''),
+      to: recipients,
+      text: parsed.text || '',
+      html: parsed.html || undefined,
+      headers,
+      attachments: parsed.attachments.map(attachment => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: attachment.content
+      })),
+      raw,
+      receivedAt: new Date()
+    };
+
+    for (const recipient of recipients) {
+      const inbox = this.messages.get(recipient) || [];
+      inbox.push(message);
+      this.messages.set(recipient, inbox);
+    }
+    console.log(`📮 Captured "${message.subject}" for ${recipients.join(', ')}`);
+  }
+}
@@ -0,0 +1,116 @@
+import { Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StoryDetailsPage, ORDER_FORM_LIMITS } from '../pages/StoryDetailsPage';
+
+/**
+ * Country and State Matrix
+ *
+ * Reads what the "Your details" form offers and compares it with the committed
+ * snapshot (tests/data/locations.snapshot.json):
+ * - Every country in the country dropdown
+ * - Every state offered for the United States
+ * - For each state, whether the subscription acknowledgment checkbox appears
+ *
+ * The snapshot is empty until captured from the live form with
+ * UPDATE_LOCATION_SNAPSHOT=true (capturedAt); from then on it drives
+ * STATES_REQUIRING_ACKNOWLEDGMENT, so a state that starts or stops requiring
+ * the acknowledgment shows up as a diff here first.
+ */
+
+export interface LocationState {
+  name: string;
+  acknowledgment: boolean;  // Subscription acknowledgment checkbox shown (self orders)
+}
+
+export interface LocationSnapshot {
+  capturedAt: string | null;  // When read from the live form; null, with no countries or states, until then
+  countries: string[];
+  states: LocationState[];
+}
+
+export interface LocationDiff {
+  addedCountries: string[];
+  removedCountries: string[];
+  addedStates: LocationState[];
+  removedStates: string[];
+  acknowledgmentChanged: Array<{ state: string; expected: boolean; actual: boolean }>;
+}
+
+export class LocationMatrix {
+  static readonly SNAPSHOT_FILE = path.join(__dirname, '..', 'data', 'locations.snapshot.json');
+  static readonly STATES_COUNTRY = ORDER_FORM_LIMITS.COUNTRY_WITH_STATES;
+
+  private readonly storyDetailsPage: StoryDetailsPage;
+
+  constructor(page: Page) {
+    this.storyDetailsPage = new StoryDetailsPage(page);
+  }
+
+  /**
+   * Read the live matrix from the "Your details" form of a self order
+   * Selects every state in turn, so the form is left with the last state selected
+   */
+  async read(): Promise<LocationSnapshot> {
+    const countries = await this.storyDetailsPage.getCountryOptions();
+    await this.storyDetailsPage.selectCountry(LocationMatrix.STATES_COUNTRY);
+    const stateNames = await this.storyDetailsPage.getStateOptions();
+
+    const states: LocationState[] = [];
+    for (const name of stateNames) {
+      if (!await this.storyDetailsPage.selectState(name, stateNames.length + 1)) {
+        throw new Error(`Failed to select state: ${name}`);
+      }
+      const acknowledgment = await this.storyDetailsPage.isSubscriptionAcknowledgmentVisible();
+      console.log(`${name}: acknowledgment ${acknowledgment ? 'required' : 'not required'}`);
+      states.push({ name, acknowledgment });
+    }
+
+    return LocationMatrix.sorted({ capturedAt: new Date().toISOString(), countries, states });
+  }
+
+  static load(file = LocationMatrix.SNAPSHOT_FILE): LocationSnapshot {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  static save(snapshot: LocationSnapshot, file = LocationMatrix.SNAPSHOT_FILE): void {
+    fs.writeFileSync(file, JSON.stringify(LocationMatrix.sorted(snapshot), null, 2) + '\n');
+    console.log(`📍 Location snapshot updated: ${file}`);
+  }
+
+  static diff(expected: LocationSnapshot, actual: LocationSnapshot): LocationDiff {
+    const expectedStates = new Map(expected.states.map(state => [state.name, state.acknowledgment]));
+    const actualStates = new Map(actual.states.map(state => [state.name, state.acknowledgment]));
+    return {
+      addedCountries: actual.countries.filter(country => !expected.countries.includes(country)),
+      removedCountries: expected.countries.filter(country => !actual.countries.includes(country)),
+      addedStates: actual.states.filter(state => !expectedStates.has(state.name)),
+      removedStates: expected.states.filter(state => !actualStates.has(state.name)).map(state => state.name),
+      acknowledgmentChanged: actual.states
+        .filter(state => expectedStates.has(state.name) && expectedStates.get(state.name) !== state.acknowledgment)
+        .map(state => ({ state: state.name, expected: expectedStates.get(state.name)!, actual: state.acknowledgment }))
+    };
+  }
+
+  /**
+   * One line per difference, empty when the live form matches the snapshot
+   */
+  static describe(diff: LocationDiff): string[] {
+    return [
+      ...diff.addedCountries.map(country => `New country: ${country}`),
+      ...diff.removedCountries.map(country => `Country no longer offered: ${country}`),
+      ...diff.addedStates.map(state => `New state: ${state.name}${state.acknowledgment ? ' (requires acknowledgment)' : ''}`),
+      ...diff.removedStates.map(state => `State no longer offered: ${state}`),
+      ...diff.acknowledgmentChanged.map(change =>
+        `${change.state} ${change.actual ? 'now requires' : 'no longer requires'} the subscription acknowledgment`)
+    ];
+  }
+
+  private static sorted(snapshot: LocationSnapshot): LocationSnapshot {
+    return {
+      capturedAt: snapshot.capturedAt,
+      countries: [...snapshot.countries].sort((a, b) => a.localeCompare(b)),
+      states: [...snapshot.states].sort((a, b) => a.name.localeCompare(b.name))
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import { EMAIL_CONFIG } from '../data/test.config';
+import { InboxLedger } from './InboxLedger';
+import { Inbox } from './providers/EmailProvider';
+import { MailSlurpProvider } from './providers/MailSlurpProvider';
+
+/**
+ * MailSlurp Inbox Pool
+ *
+ * Worker-scoped pool of MailSlurp inboxes. Tests lease inboxes instead of
+ * creating them directly; when a test ends its inboxes go back to the pool,
+ * or are deleted once they reach INBOX_POOL.MAX_USES or MAX_AGE. Whatever is
+ * left is deleted when the worker shuts down.
+ *
+ * A reused inbox keeps its address, so with MAX_USES above 1 the next test
+ * also gets the app account registered to it. Reused inboxes are emptied first.
+ */
+
+interface PooledInbox {
+  inbox: Inbox;
+  createdAt: number;
+  uses: number;
+  leasedBy?: string;
+}
+
+export class MailSlurpInboxPool {
+  private readonly pooled: PooledInbox[] = [];
+
+  constructor(
+    private readonly provider: MailSlurpProvider,
+    private readonly ledger: InboxLedger = new InboxLedger()
+  ) {}
+
+  /**
+   * Inboxes for one test, returned to the pool by lease.release()
+   * @param test Test title, recorded in the ledger
+   */
+  lease(test: string): InboxLease {
+    return new InboxLease(this, test);
+  }
+
+  /**
+   * Hand out an idle inbox, or create one when none is left
+   */
+  async acquire(test: string): Promise<Inbox> {
+    await this.expire();
+
+    let pooled = this.pooled.find(candidate => !candidate.leasedBy);
+    if (pooled) {
+      await this.provider.emptyInbox(pooled.inbox.id);
+      console.log(`📬 Reusing pooled inbox ${pooled.inbox.emailAddress} (use ${pooled.uses + 1}/${EMAIL_CONFIG.INBOX_POOL.MAX_USES})`);
+    } else {
+      pooled = { inbox: await this.provider.createInbox(), createdAt: Date.now(), uses: 0 };
+      this.pooled.push(pooled);
+    }
+
+    pooled.leasedBy = test;
+    pooled.uses++;
+    this.ledger.used(pooled.inbox.id, pooled.inbox.emailAddress, test);
+    return pooled.inbox;
+  }
+
+  /**
+   * Return a test's inboxes to the pool, deleting the used up ones
+   */
+  async release(test: string): Promise<void> {
+    for (const pooled of this.pooled) {
+      if (pooled.leasedBy === test) pooled.leasedBy = undefined;
+    }
+    await this.expire();
+  }
+
+  /**
+   * Delete every inbox in the pool
+   * Call when the worker shuts down
+   */
+  async drain(): Promise<void> {
+    for (const pooled of [...this.pooled]) {
+      await this.delete(pooled);
+    }
+  }
+
+  private async expire(): Promise<void> {
+    const now = Date.now();
+    const expired = this.pooled.filter(pooled => !pooled.leasedBy && (
+      pooled.uses >= EMAIL_CONFIG.INBOX_POOL.MAX_USES ||
+      now - pooled.createdAt > EMAIL_CONFIG.INBOX_POOL.MAX_AGE
+    ));
+    for (const pooled of expired) {
+      await this.delete(pooled);
+    }
+  }
+
+  private async delete(pooled: PooledInbox): Promise<void> {
+    this.pooled.splice(this.pooled.indexOf(pooled), 1);
+    try {
+      await this.provider.deleteInbox(pooled.inbox.id, pooled.inbox.emailAddress);
+      console.log(`🗑️ Deleted inbox ${pooled.inbox.emailAddress}`);
+    } catch (error) {
+      // Left in the ledger as open, so global teardown or the purge command retries
+      console.warn(`⚠️ Failed to delete inbox ${pooled.inbox.emailAddress}:`, error);
+    }
+  }
+}
+
+/**
+ * One test's share of the pool, passed to EmailHandler as its inbox source
+ */
+export class InboxLease {
+  constructor(private readonly pool: MailSlurpInboxPool, readonly test: string) {}
+
+  async createInbox(): Promise<Inbox> {
+    return this.pool.acquire(this.test);
+  }
+
+  async release(): Promise<void> {
+    await this.pool.release(this.test);
+  }
+}
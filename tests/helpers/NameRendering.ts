@@ -0,0 +1,85 @@
+/**
+ * Name Rendering Checks
+ *
+ * Finds the ways user supplied names and messages break on their way to a page
+ * or an email:
+ * - Missing entirely
+ * - Replacement characters (U+FFFD) where a character could not be decoded
+ * - Mojibake: UTF-8 bytes shown as Latin-1, e.g. "ZoÃ«" for "Zoë"
+ * - HTML escaped twice, e.g. "D&#39;Arcy" shown as text
+ * - Truncated, only the start of a long value shown
+ *
+ * Values are compared in Unicode NFC, so composed and decomposed accents match.
+ */
+
+export interface NameRenderingFinding {
+  name: string;
+  problem: 'missing' | 'replacement-character' | 'mojibake' | 'html-escaped' | 'truncated';
+  message: string;
+}
+
+/**
+ * How a value looks when its UTF-8 bytes are read as Latin-1
+ */
+function asMojibake(value: string): string {
+  return Buffer.from(value, 'utf8').toString('latin1');
+}
+
+function htmlEscaped(value: string): string[] {
+  return [
+    value.replace(/&/g, '&amp;').replace(/'/g, '&#39;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;'),
+    value.replace(/'/g, '&#x27;'),
+    value.replace(/'/g, '&apos;')
+  ].filter(escaped => escaped !== value);
+}
+
+/**
+ * Check that each value appears intact in rendered text
+ * @param rendered Visible text of a page element or email part
+ * @param values Expected values by name, e.g. { firstName: 'Zoë' }
+ * @param options.optional Names of values that may be left out; only corruption of them is reported
+ */
+export function findRenderingProblems(
+  rendered: string,
+  values: Record<string, string | undefined>,
+  options: { optional?: string[] } = {}
+): NameRenderingFinding[] {
+  const text = rendered.normalize('NFC');
+  const findings: NameRenderingFinding[] = [];
+
+  if (text.includes('\uFFFD')) {
+    findings.push({ name: 'text', problem: 'replacement-character', message: 'Rendered text contains U+FFFD replacement characters' });
+  }
+
+  for (const [name, raw] of Object.entries(values)) {
+    if (!raw) continue;
+    const value = raw.normalize('NFC');
+    if (text.includes(value)) continue;
+
+    const mojibake = asMojibake(value);
+    if (mojibake !== value && text.includes(mojibake)) {
+      findings.push({ name, problem: 'mojibake', message: `${name} "${value}" is shown as "${mojibake}"` });
+      continue;
+    }
+
+    const escaped = htmlEscaped(value).find(candidate => text.includes(candidate));
+    if (escaped) {
+      findings.push({ name, problem: 'html-escaped', message: `${name} "${value}" is shown escaped as "${escaped}"` });
+      continue;
+    }
+
+    // A long value cut short, with or without an ellipsis
+    const characters = Array.from(value);
+    const prefix = characters.slice(0, Math.min(20, Math.floor(characters.length / 2))).join('');
+    if (characters.length > 20 && text.includes(prefix)) {
+      findings.push({ name, problem: 'truncated', message: `${name} is truncated, only "${prefix}…" of ${characters.length} characters found` });
+      continue;
+    }
+
+    if (!options.optional?.includes(name)) {
+      findings.push({ name, problem: 'missing', message: `${name} "${value}" is missing` });
+    }
+  }
+
+  return findings;
+}
@@ -0,0 +1,164 @@
+import { Page, TestInfo, expect } from '@playwright/test';
+import { HomePage } from '../pages/HomePage';
+import { OrderPage } from '../pages/OrderPage';
+import { StoryDetailsPage, GiftGiverDetails } from '../pages/StoryDetailsPage';
+import { PaymentPage, stripeTestCards } from '../pages/PaymentPage';
+import { BuiltPersona } from './PersonaBuilder';
+import { EmailHandler } from './EmailHandler';
+import { EmailJourney, JourneyStep } from './EmailJourney';
+import { EMAIL_CONFIG, URLS } from '../data/test.config';
+import { FunnelPoint, Landing, NavigationAction, NAVIGATION_EXPECTATIONS } from '../data/navigation.config';
+
+/**
+ * Navigation Harness
+ *
+ * Takes a self or gift order to a point of the funnel through the page
+ * objects, applies a browser navigation (back, forward, reload, new tab) and
+ * checks the result against NAVIGATION_EXPECTATIONS: which page it lands on,
+ * whether the details form kept or cleared its values, and that a paid order
+ * is never offered the checkout again nor placed twice: the storyteller gets
+ * a single welcome (self) or gift (gift) email for it, checked with an email
+ * journey when emails are really delivered.
+ */
+export class NavigationHarness {
+  private entered?: GiftGiverDetails;
+  private orderEmail?: { journey: EmailJourney; step: JourneyStep };
+
+  constructor(
+    private readonly page: Page,
+    private readonly flow: 'self' | 'gift',
+    private readonly emailHandler: EmailHandler
+  ) {}
+
+  /**
+   * Go through the funnel up to a point: the order type page, the details form
+   * filled in but not submitted, the Stripe checkout, or the success page
+   * @param users For the success page, with inboxes registered (PersonaBuilder.register)
+   */
+  async reach(point: FunnelPoint, users: BuiltPersona) {
+    const isGift = this.flow === 'gift';
+    const storyDetailsPage = new StoryDetailsPage(this.page);
+    const paymentPage = new PaymentPage(this.page);
+
+    await new HomePage(this.page).startOrderFlow();
+    if (point === 'order-type') return;
+
+    await new OrderPage(this.page).selectOrderType(isGift ? 'Someone else' : 'I will');
+    if (isGift) {
+      await storyDetailsPage.fillStoryTellerDetails(users.storyteller);
+    }
+    this.entered = isGift ? users.giftGiver! : users.storyteller;
+    await storyDetailsPage.enterGiftGiverDetails(this.entered, isGift);
+    if (point === 'details') return;
+
+    await storyDetailsPage.continueToCheckout();
+    expect(await paymentPage.isPaymentPage(), 'Stripe checkout shown').toBeTruthy();
+    if (point === 'payment') return;
+
+    const journey = await this.emailHandler.startJourney(users.storyteller.email);
+    await paymentPage.completePayment(stripeTestCards.success, isGift);
+    journey.mark('payment');
+    this.orderEmail = {
+      journey,
+      step: isGift ? {
+        name: 'gift receive',
+        subject: {
+          template: EMAIL_CONFIG.SUBJECTS.GIFT_RECEIVE,
+          params: { receiverFirstName: users.storyteller.firstName, giverFirstName: users.giftGiver!.firstName }
+        },
+        after: 'payment',
+        within: EMAIL_CONFIG.JOURNEY.SLA.GIFT_RECEIVE
+      } : {
+        name: 'welcome',
+        subject: EMAIL_CONFIG.SUBJECTS.WELCOME,
+        after: 'payment',
+        within: EMAIL_CONFIG.JOURNEY.SLA.WELCOME
+      }
+    };
+  }
+
+  /**
+   * Apply a navigation and check where it lands against the expectations
+   */
+  async check(point: FunnelPoint, action: NavigationAction, testInfo: TestInfo) {
+    const expected = NAVIGATION_EXPECTATIONS[point][action];
+    const target = await this.apply(action);
+    const landed = await NavigationHarness.landing(target);
+    testInfo.annotations.push({ type: 'navigation', description: `${this.flow} ${point} + ${action}: ${landed} (${target.url()})` });
+
+    if (point === 'success') {
+      expect(landed, 'Checkout offered again for a paid order').not.toBe('payment');
+    }
+    expect(expected.lands, `${action} at ${point} landed on ${landed} (${target.url()})`).toContain(landed);
+    if (point === 'success') {
+      await this.expectSingleOrder(testInfo);
+    }
+
+    if (landed === 'details' && expected.form && this.entered) {
+      const values = await new StoryDetailsPage(target).getGiftGiverValues();
+      if (expected.form === 'kept') {
+        expect(values, `Details kept after ${action}`).toEqual({
+          firstName: this.entered.firstName,
+          lastName: this.entered.lastName,
+          email: this.entered.email
+        });
+      } else {
+        expect(values, `Details cleared after ${action}`).toEqual({ firstName: '', lastName: '', email: '' });
+      }
+    }
+  }
+
+  /**
+   * Check the order was placed once: exactly one order email for the storyteller,
+   * duplicates fail the journey (other emails, such as a login link, are allowed)
+   */
+  private async expectSingleOrder(testInfo: TestInfo) {
+    if (!this.orderEmail) throw new Error('No order was paid, reach the success page first');
+    const { journey, step } = this.orderEmail;
+    await journey.expectSequence([step], testInfo, { allowExtra: true });
+  }
+
+  /**
+   * @returns The page the navigation ended on; a new page for 'new-tab'
+   */
+  private async apply(action: NavigationAction): Promise<Page> {
+    console.log(`Navigation: ${action} from ${this.page.url()}`);
+    let target = this.page;
+    switch (action) {
+      case 'back':
+        await this.page.goBack();
+        break;
+      case 'forward':
+        await this.page.goBack();
+        await this.page.waitForLoadState('networkidle');
+        await this.page.goForward();
+        break;
+      case 'reload':
+        await this.page.reload();
+        break;
+      case 'new-tab':
+        target = await this.page.context().newPage();
+        await target.goto(this.page.url());
+        break;
+    }
+    await target.waitForLoadState('networkidle');
+    return target;
+  }
+
+  /**
+   * Which funnel page is showing
+   */
+  static async landing(page: Page): Promise<Landing | 'unknown'> {
+    const url = new URL(page.url());
+    if (url.host === new URL(URLS.HOME).host) return 'home';
+    if (/\/order\/success/.test(url.pathname)) return 'success';
+    if (url.host === new URL(URLS.APP).host && url.pathname === '/') return 'dashboard';
+
+    // Order pages: the checkout first, as the details heading may stay above it
+    if (await new PaymentPage(page).isPaymentPage()) return 'payment';
+    const storyDetailsPage = new StoryDetailsPage(page);
+    if (await storyDetailsPage.isGiftGiverPage() || await storyDetailsPage.isStoryTellerPage()) return 'details';
+    if (await new OrderPage(page).isOrderTypePage().catch(() => false)) return 'order-type';
+    return 'unknown';
+  }
+}
@@ -0,0 +1,233 @@
+import { BrowserContext, Page, TestInfo, expect, test } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { HomePage } from '../pages/HomePage';
+import { OrderPage } from '../pages/OrderPage';
+import { StoryDetailsPage } from '../pages/StoryDetailsPage';
+import { PaymentPage, stripeTestCards } from '../pages/PaymentPage';
+import { CookieConsentOption } from '../pages/BasePage';
+import { StoryTellerDetails, GiftGiverDetails } from './TestDataGenerator';
+import { TestFlowHelper } from './TestFlowHelper';
+import { getStatePath } from './TestRun';
+import { JOURNEY } from '../data/test.config';
+
+/**
+ * Order Journey
+ *
+ * The order funnel as named steps - home, order-type, details, payment,
+ * dashboard - each run as a `test.step` named after the checkpoint it saves:
+ *
+ *   const journey = new OrderJourney(page, storyteller, { testInfo });
+ *   await journey.run();                          // after-home ... after-dashboard
+ *   await journey.run({ from: 'after-payment' }); // straight to the dashboard
+ *
+ * After each step the page's storageState and URL are saved to
+ * .test-state/checkpoints/<project>/<journey>/after-<step>.json with the users,
+ * so a later test of the same project (or JOURNEY_RESUME_FROM=after-payment)
+ * restores the session and continues from the next step instead of replaying
+ * the funnel. Projects keep their own checkpoints, since sessions differ per
+ * browser and device and projects run in parallel.
+ *
+ * Gift journeys (giftGiver set) end at payment; the gift giver has no dashboard.
+ * Form fields kept only in page memory are not part of a checkpoint.
+ */
+
+export const JOURNEY_STEPS = ['home', 'order-type', 'details', 'payment', 'dashboard'] as const;
+
+export type JourneyStep = typeof JOURNEY_STEPS[number];
+export type CheckpointName = `after-${JourneyStep}`;
+
+type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export interface JourneyCheckpoint {
+  name: CheckpointName;
+  journey: string;
+  url: string;
+  savedAt: string;
+  test?: string;
+  storyteller: StoryTellerDetails;
+  giftGiver?: GiftGiverDetails;
+  storageState: StorageState;
+}
+
+export interface OrderJourneyOptions {
+  name?: string;                // Checkpoint set to save to and resume from; default self-order or gift-order
+  project?: string;             // Whose checkpoints; default the test's project
+  giftGiver?: GiftGiverDetails; // Makes this a gift order
+  cookies?: CookieConsentOption;
+  testInfo?: TestInfo;          // Annotates the saved checkpoints
+}
+
+export class OrderJourney {
+  readonly name: string;
+  readonly project: string;
+  private giftGiver?: GiftGiverDetails;
+  private resumed = false;
+
+  constructor(private readonly page: Page, private user: StoryTellerDetails, private readonly options: OrderJourneyOptions = {}) {
+    this.giftGiver = options.giftGiver;
+    this.name = options.name || (this.giftGiver ? 'gift-order' : 'self-order');
+    this.project = options.project || options.testInfo?.project.name || 'default';
+  }
+
+  /**
+   * Users of the journey; replaced by the checkpoint's users when resuming
+   */
+  get storyteller(): StoryTellerDetails {
+    return this.user;
+  }
+
+  get giver(): GiftGiverDetails | undefined {
+    return this.giftGiver;
+  }
+
+  /**
+   * Steps of this journey, in order
+   */
+  steps(): JourneyStep[] {
+    return JOURNEY_STEPS.filter(step => !(this.giftGiver && step === 'dashboard'));
+  }
+
+  /**
+   * Run the steps, saving a checkpoint after each
+   * @param from Checkpoint to resume after; defaults to JOURNEY_RESUME_FROM
+   * @param to Last step to run; defaults to the journey's last step
+   */
+  async run(options: { from?: CheckpointName; to?: JourneyStep } = {}): Promise<void> {
+    const steps = this.steps();
+    const from = options.from || JOURNEY.RESUME_FROM as CheckpointName | undefined;
+    const to = options.to || steps[steps.length - 1];
+    if (!steps.includes(to)) {
+      throw new Error(`The ${this.name} journey has no ${to} step. Steps: ${steps.join(', ')}`);
+    }
+
+    let start = 0;
+    if (from) {
+      const checkpoint = OrderJourney.load(this.project, this.name, from);
+      await test.step(`resume from ${from}`, () => this.restore(checkpoint));
+      start = steps.indexOf(OrderJourney.stepOf(from)) + 1;
+    }
+
+    for (const step of steps.slice(start, steps.indexOf(to) + 1)) {
+      await test.step(`after-${step}`, async () => {
+        await this.runStep(step);
+        await this.save(step);
+      });
+    }
+  }
+
+  /**
+   * Read a saved checkpoint
+   * @throws Error naming the checkpoints that do exist when it is missing
+   */
+  static load(project: string, journey: string, name: string): JourneyCheckpoint {
+    OrderJourney.stepOf(name);
+    const file = OrderJourney.checkpointPath(project, journey, name);
+    if (!fs.existsSync(file)) {
+      const saved = OrderJourney.list(project, journey);
+      throw new Error(`No ${name} checkpoint for the ${journey} journey in ${project}. ` +
+        (saved.length ? `Saved: ${saved.join(', ')}` : 'Run the journey once to save its checkpoints'));
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  /**
+   * Names of the saved checkpoints of a journey, in step order
+   */
+  static list(project: string, journey: string): CheckpointName[] {
+    return JOURNEY_STEPS
+      .map(step => `after-${step}` as CheckpointName)
+      .filter(name => fs.existsSync(OrderJourney.checkpointPath(project, journey, name)));
+  }
+
+  static checkpointPath(project: string, journey: string, name: string): string {
+    const dir = getStatePath(path.join(JOURNEY.CHECKPOINT_DIR, project.replace(/[^a-z0-9-]/gi, '_'), journey));
+    fs.mkdirSync(dir, { recursive: true });
+    return path.join(dir, `${name}.json`);
+  }
+
+  private static stepOf(name: string): JourneyStep {
+    const step = JOURNEY_STEPS.find(candidate => `after-${candidate}` === name);
+    if (!step) {
+      throw new Error(`Unknown checkpoint "${name}". Use one of: ${JOURNEY_STEPS.map(candidate => `after-${candidate}`).join(', ')}`);
+    }
+    return step;
+  }
+
+  private async runStep(step: JourneyStep) {
+    const isGift = !!this.giftGiver;
+    const storyDetailsPage = new StoryDetailsPage(this.page);
+    switch (step) {
+      case 'home':
+        await new HomePage(this.page).startOrderFlow(this.options.cookies);
+        break;
+      case 'order-type':
+        await new OrderPage(this.page).selectOrderType(isGift ? 'Someone else' : 'I will');
+        break;
+      case 'details':
+        if (isGift) {
+          await storyDetailsPage.fillStoryTellerDetails(this.user);
+          await storyDetailsPage.fillGiftGiverDetails(this.giftGiver!, true);
+        } else {
+          await storyDetailsPage.fillGiftGiverDetails(this.user);
+        }
+        break;
+      case 'payment':
+        await new PaymentPage(this.page).completePayment(stripeTestCards.success, isGift);
+        await expect(this.page).toHaveURL(/\/order\/success/);
+        break;
+      case 'dashboard':
+        // Right after a resume the success page may be gone; open the app directly
+        if (this.resumed) {
+          await TestFlowHelper.openDashboard(this.page);
+        } else {
+          await TestFlowHelper.goToDashboard(this.page);
+        }
+        break;
+    }
+    this.resumed = false;
+  }
+
+  private async save(step: JourneyStep) {
+    const name: CheckpointName = `after-${step}`;
+    const checkpoint: JourneyCheckpoint = {
+      name,
+      journey: this.name,
+      url: this.page.url(),
+      savedAt: new Date().toISOString(),
+      test: this.options.testInfo?.titlePath.join(' › '),
+      storyteller: this.user,
+      giftGiver: this.giftGiver,
+      storageState: await this.page.context().storageState()
+    };
+    const file = OrderJourney.checkpointPath(this.project, this.name, name);
+    // Written whole, so a resuming test never reads it half-written
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(checkpoint, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+    this.options.testInfo?.annotations.push({ type: 'checkpoint', description: `${name}: ${file}` });
+    console.log(`📍 Saved checkpoint ${name} (${checkpoint.url})`);
+  }
+
+  /**
+   * Load a checkpoint's session into the page's context and open its URL
+   */
+  private async restore(checkpoint: JourneyCheckpoint) {
+    console.log(`📍 Resuming ${this.name} journey (${this.project}) from ${checkpoint.name} saved ${checkpoint.savedAt}`);
+    const context = this.page.context();
+    await context.clearCookies();
+    await context.addCookies(checkpoint.storageState.cookies);
+    // Local storage is per origin and can only be written from a page of that origin
+    await context.addInitScript(origins => {
+      if (window.sessionStorage.getItem('journey-restored')) return;
+      const saved = origins.find(origin => origin.origin === window.location.origin);
+      if (!saved) return;
+      saved.localStorage.forEach(({ name, value }) => window.localStorage.setItem(name, value));
+      window.sessionStorage.setItem('journey-restored', 'true');
+    }, checkpoint.storageState.origins);
+    await this.page.goto(checkpoint.url);
+
+    this.user = checkpoint.storyteller;
+    this.giftGiver = checkpoint.giftGiver;
+    this.resumed = true;
+  }
+}
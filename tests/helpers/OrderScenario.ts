@@ -0,0 +1,204 @@
+import { Page, TestInfo, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { HomePage } from '../pages/HomePage';
+import { OrderPage } from '../pages/OrderPage';
+import { StoryDetailsPage } from '../pages/StoryDetailsPage';
+import { PaymentPage, stripeTestCards } from '../pages/PaymentPage';
+import { CookieConsentOption } from '../pages/BasePage';
+import { TestDataGenerator } from './TestDataGenerator';
+import { persona } from './PersonaBuilder';
+import { PERSONAS, Persona } from '../data/personas.config';
+import { PRICES, calculateTotalPrice } from '../data/prices.config';
+
+/**
+ * Order Scenarios
+ *
+ * Orders described in YAML files (tests/data/scenarios/*.yml) and run through
+ * the page objects, one Playwright test per scenario (see scenarios.spec.ts).
+ * A file holds one scenario, or a list of them under `scenarios:`.
+ *
+ * Users are built with the persona builder, so copies, state and gift date are
+ * checked against the order form limits when the scenario runs.
+ */
+
+export type ScenarioOutcome = 'success' | 'payment-error';
+
+export interface OrderScenario {
+  name: string;
+  file: string;                 // Relative to the scenarios directory, for test titles and errors
+  type: 'self' | 'gift';
+  tags: string[];
+  cookies: CookieConsentOption;
+  personas: {
+    storyteller?: string;       // Persona IDs from personas.config.ts
+    giftGiver?: string;
+  };
+  country?: string;
+  state?: string;
+  copies: number;
+  giftDate?: string;            // 'today', '+7d', '+2w' or YYYY-MM-DD
+  message?: string;
+  promo?: string;               // Key of PRICES.PROMO_CODES, or a literal code
+  card: string;                 // Key of stripeTestCards
+  expect: {
+    total?: string;             // Total after promo, e.g. '0.00'
+    outcome: ScenarioOutcome;
+    error?: string;             // Payment error message, for payment-error outcomes
+  };
+}
+
+export const SCENARIOS_DIR = path.join(__dirname, '..', 'data', 'scenarios');
+
+const SCENARIO_FIELDS = ['name', 'type', 'tags', 'cookies', 'personas', 'country', 'state', 'copies', 'giftDate', 'message', 'promo', 'card', 'expect'];
+
+/**
+ * Read and check every scenario file
+ * Throws on the first invalid scenario, naming its file and field
+ */
+export function loadScenarios(dir: string = SCENARIOS_DIR): OrderScenario[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(file => /\.ya?ml$/.test(file))
+    .sort()
+    .flatMap(file => {
+      const content = yaml.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+      const entries: unknown[] = Array.isArray(content?.scenarios) ? content.scenarios : [content];
+      return entries.map((entry, i) => parseScenario(entry, entries.length > 1 ? `${file}#${i + 1}` : file));
+    });
+}
+
+function parseScenario(raw: unknown, file: string): OrderScenario {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid order scenario ${file}: ${message}`);
+  };
+  const isMapping = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+  const optionalString = (value: unknown, field: string): string | undefined => {
+    if (value === undefined || typeof value === 'string') return value;
+    return fail(`${field} must be text, got ${value}`);
+  };
+  if (!isMapping(raw)) return fail('expected a mapping of scenario fields');
+  const entry = raw;
+
+  const unknownFields = Object.keys(entry).filter(field => !SCENARIO_FIELDS.includes(field));
+  if (unknownFields.length) fail(`unknown field(s) ${unknownFields.join(', ')}`);
+  const name = typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : fail('name is required');
+  const type = entry.type === 'self' || entry.type === 'gift' ? entry.type : fail(`type must be self or gift, got ${entry.type}`);
+
+  const cookieOptions: unknown[] = Object.values(CookieConsentOption);
+  const cookies = entry.cookies ?? CookieConsentOption.ALLOW_ALL;
+  if (!cookieOptions.includes(cookies)) {
+    fail(`cookies must be one of ${cookieOptions.join(', ')}, got ${cookies}`);
+  }
+
+  const rawPersonas = entry.personas ?? {};
+  if (!isMapping(rawPersonas)) return fail('personas must map roles to persona IDs');
+  const personas: OrderScenario['personas'] = {};
+  for (const [role, id] of Object.entries(rawPersonas)) {
+    if (role !== 'storyteller' && role !== 'giftGiver') fail(`personas.${role} is not a role, use storyteller or giftGiver`);
+    if (typeof id !== 'string' || !PERSONAS.some(candidate => candidate.id === id)) return fail(`personas.${role}: unknown persona ${id}`);
+    personas[role as keyof OrderScenario['personas']] = id;
+  }
+  if (personas.giftGiver && type !== 'gift') fail('personas.giftGiver is only for gift scenarios');
+
+  const copies = entry.copies ?? 1;
+  if (typeof copies !== 'number' || !Number.isInteger(copies)) return fail(`copies must be a whole number, got ${copies}`);
+
+  const card = entry.card ?? 'success';
+  if (typeof card !== 'string' || !stripeTestCards[card]) {
+    return fail(`card must be one of ${Object.keys(stripeTestCards).join(', ')}, got ${card}`);
+  }
+
+  const expected = entry.expect ?? {};
+  if (!isMapping(expected)) return fail('expect must be a mapping of total, outcome and error');
+  const outcome = expected.outcome ?? (stripeTestCards[card].scenario === 'success' ? 'success' : 'payment-error');
+  if (outcome !== 'success' && outcome !== 'payment-error') return fail(`expect.outcome must be success or payment-error, got ${outcome}`);
+
+  const tags: unknown[] = Array.isArray(entry.tags) ? entry.tags : entry.tags === undefined ? [] : [entry.tags];
+  return {
+    name,
+    file,
+    type,
+    tags: tags.map(tag => String(tag).startsWith('@') ? String(tag) : `@${tag}`),
+    cookies: cookies as CookieConsentOption,
+    personas,
+    country: optionalString(entry.country, 'country'),
+    state: optionalString(entry.state, 'state'),
+    copies,
+    giftDate: entry.giftDate === undefined ? undefined : String(entry.giftDate),
+    message: optionalString(entry.message, 'message'),
+    promo: optionalString(entry.promo, 'promo'),
+    card,
+    expect: {
+      total: expected.total === undefined ? undefined : String(expected.total),
+      outcome,
+      error: optionalString(expected.error, 'expect.error')
+    }
+  };
+}
+
+function findPersona(id: string): Persona {
+  return PERSONAS.find(candidate => candidate.id === id)!;
+}
+
+/**
+ * Run a scenario through the order flow and check its expected total and outcome
+ */
+export async function runScenario(page: Page, scenario: OrderScenario, testData: TestDataGenerator, testInfo: TestInfo): Promise<void> {
+  testInfo.annotations.push({ type: 'scenario', description: scenario.file });
+  const isGift = scenario.type === 'gift';
+
+  // Users, checked against the order form limits
+  const builder = persona(testData).copies(scenario.copies);
+  if (isGift) builder.giftRecipient();
+  if (scenario.personas.storyteller) builder.as(findPersona(scenario.personas.storyteller));
+  if (scenario.personas.giftGiver) {
+    const giver = findPersona(scenario.personas.giftGiver);
+    builder.from(giver.firstName, giver.lastName);
+  }
+  if (scenario.country) builder.inCountry(scenario.country);
+  if (scenario.state) builder.inState(scenario.state);
+  if (scenario.giftDate) builder.giftDate(scenario.giftDate);
+  if (scenario.message) builder.message(scenario.message);
+  const { storyteller, giftGiver } = await builder.build();
+  console.log(`Running scenario "${scenario.name}" (${scenario.file}):`, { storyteller, giftGiver });
+
+  const homePage = new HomePage(page);
+  const orderPage = new OrderPage(page);
+  const storyDetailsPage = new StoryDetailsPage(page);
+  const paymentPage = new PaymentPage(page);
+
+  await homePage.startOrderFlow(scenario.cookies);
+  await orderPage.selectOrderType(isGift ? 'Someone else' : 'I will');
+  if (isGift) {
+    await storyDetailsPage.fillStoryTellerDetails(storyteller);
+    await storyDetailsPage.fillGiftGiverDetails(giftGiver!, true);
+  } else {
+    await storyDetailsPage.fillGiftGiverDetails(storyteller);
+  }
+
+  // Wait for price to update after copies selection
+  await page.waitForTimeout(1000);
+  expect(await paymentPage.getMarketPrice(), 'Market price').toContain(`$${calculateTotalPrice(scenario.copies)}`);
+
+  let expectedTotal = scenario.expect.total;
+  if (scenario.promo) {
+    const promo = PRICES.PROMO_CODES[scenario.promo as keyof typeof PRICES.PROMO_CODES];
+    expect(await paymentPage.applyPromoCode(promo ? promo.code : scenario.promo), `Promo code ${scenario.promo} applied`).toBeTruthy();
+    expectedTotal = expectedTotal ?? promo?.finalPrice;
+  }
+  if (expectedTotal !== undefined) {
+    expect(await paymentPage.getTotalAmount(), 'Total').toBe(`$${expectedTotal}`);
+  }
+
+  await paymentPage.completePayment(stripeTestCards[scenario.card], isGift);
+  if (scenario.expect.outcome === 'success') {
+    await expect(page).toHaveURL(/\/order\/success/);
+  } else {
+    const errorMessage = await paymentPage.getErrorMessage();
+    expect(errorMessage, 'Payment error').toBeTruthy();
+    if (scenario.expect.error) expect(errorMessage).toBe(scenario.expect.error);
+  }
+}
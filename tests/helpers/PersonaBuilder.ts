@@ -0,0 +1,211 @@
+/**
+ * Persona Builder
+ *
+ * Fluent, typed way to describe test users instead of spreading objects by hand:
+ *
+ *   const { storyteller, giftGiver } = await persona(testData)
+ *     .giftRecipient()
+ *     .inCountry('Canada')
+ *     .copies(3)
+ *     .giftDate('+7d')
+ *     .register(emailHandler);
+ *
+ * Values are checked against what the order form accepts as they are set:
+ * - Copies between ORDER_FORM_LIMITS.MIN_COPIES and MAX_COPIES
+ * - A state only for ORDER_FORM_LIMITS.COUNTRY_WITH_STATES, and one the form offers
+ * - A gift date (gift orders only) that is not in the past
+ *
+ * Unset values come from TestDataGenerator, so the seed still replays them.
+ * Gift orders build a linked storyteller/gift giver pair.
+ */
+
+import { EmailHandler } from './EmailHandler';
+import { TestDataGenerator, StoryTellerDetails, GiftGiverDetails } from './TestDataGenerator';
+import { ORDER_FORM_LIMITS } from '../pages/StoryDetailsPage';
+import { Persona } from '../data/personas.config';
+import { LocationMatrix } from './LocationMatrix';
+
+export interface BuiltPersona {
+  storyteller: StoryTellerDetails;
+  giftGiver?: GiftGiverDetails;  // Set for gift orders
+}
+
+/**
+ * Start describing a test user
+ * @param generator Source of the values not set on the builder
+ */
+export function persona(generator: TestDataGenerator = new TestDataGenerator()): PersonaBuilder {
+  return new PersonaBuilder(generator);
+}
+
+export class PersonaBuilder {
+  private isGift = false;
+  private names?: Persona;
+  private email?: string;
+  private country?: string;
+  private state?: string;
+  private copyCount?: number;
+  private deliveryDate?: string;
+  private giftMessage?: string;
+  private giver?: { firstName: string; lastName: string; email?: string };
+
+  constructor(private readonly generator: TestDataGenerator) {}
+
+  /**
+   * Order a gift: the storyteller is the recipient, and a gift giver is built with them
+   */
+  giftRecipient(): this {
+    this.isGift = true;
+    return this;
+  }
+
+  /**
+   * Use a persona's names, and its gift message for gift orders (see personas.config.ts)
+   */
+  as(persona: Persona): this {
+    this.names = persona;
+    return this;
+  }
+
+  named(firstName: string, lastName: string): this {
+    this.names = { id: 'named', description: 'Names set in the test', firstName, lastName };
+    return this;
+  }
+
+  withEmail(email: string): this {
+    this.email = email;
+    return this;
+  }
+
+  /**
+   * Country of the person paying (the gift giver for gift orders)
+   */
+  inCountry(country: string): this {
+    if (this.state && country !== ORDER_FORM_LIMITS.COUNTRY_WITH_STATES) {
+      throw new Error(`State ${this.state} is only allowed in ${ORDER_FORM_LIMITS.COUNTRY_WITH_STATES}, not ${country}`);
+    }
+    this.country = country;
+    return this;
+  }
+
+  /**
+   * US state; sets the country to the United States when none is set
+   */
+  inState(state: string): this {
+    if (this.country && this.country !== ORDER_FORM_LIMITS.COUNTRY_WITH_STATES) {
+      throw new Error(`State ${state} is only allowed in ${ORDER_FORM_LIMITS.COUNTRY_WITH_STATES}, not ${this.country}`);
+    }
+    // Checked against the states the form offers, once they were captured
+    const locations = LocationMatrix.load();
+    if (locations.capturedAt && !locations.states.some(offered => offered.name === state)) {
+      throw new Error(`State ${state} is not offered by the order form (see locations.snapshot.json)`);
+    }
+    this.country = ORDER_FORM_LIMITS.COUNTRY_WITH_STATES;
+    this.state = state;
+    return this;
+  }
+
+  copies(copies: number): this {
+    if (!Number.isInteger(copies) || copies < ORDER_FORM_LIMITS.MIN_COPIES || copies > ORDER_FORM_LIMITS.MAX_COPIES) {
+      throw new Error(`Number of copies must be between ${ORDER_FORM_LIMITS.MIN_COPIES} and ${ORDER_FORM_LIMITS.MAX_COPIES}, got ${copies}`);
+    }
+    this.copyCount = copies;
+    return this;
+  }
+
+  /**
+   * Gift delivery date: 'today', relative ('+7d', '+2w') or YYYY-MM-DD
+   */
+  giftDate(date: string | Date): this {
+    const parsed = PersonaBuilder.parseDate(date);
+    const today = PersonaBuilder.formatDate(new Date());
+    if (parsed < today) {
+      throw new Error(`Gift date ${parsed} is in the past (today is ${today})`);
+    }
+    this.deliveryDate = parsed;
+    return this;
+  }
+
+  message(message: string): this {
+    this.giftMessage = message;
+    return this;
+  }
+
+  /**
+   * Gift giver's names and address, generated when not set
+   */
+  from(firstName: string, lastName: string, email?: string): this {
+    this.giver = { firstName, lastName, email };
+    return this;
+  }
+
+  /**
+   * Build the user(s) without registering inboxes
+   */
+  async build(): Promise<BuiltPersona> {
+    if (!this.isGift && (this.deliveryDate || this.giftMessage || this.giver)) {
+      throw new Error('Gift date, message and gift giver are only allowed for gift orders, call giftRecipient() first');
+    }
+
+    const options = {
+      persona: this.names,
+      // No country set: a US user, with a state as the form requires for the US
+      withState: this.country === undefined || this.country === ORDER_FORM_LIMITS.COUNTRY_WITH_STATES,
+      giftDate: this.deliveryDate
+    };
+    const storyteller = await this.generator.generateStoryTeller({ ...options, isGiftRecipient: this.isGift });
+    this.applyOrderDetails(storyteller);
+    if (this.email) storyteller.email = this.email;
+
+    if (!this.isGift) {
+      return { storyteller };
+    }
+
+    const giftGiver = await this.generator.generateGiftGiver({ ...options, persona: undefined });
+    this.applyOrderDetails(giftGiver);
+    if (this.giver) {
+      giftGiver.firstName = this.giver.firstName;
+      giftGiver.lastName = this.giver.lastName;
+      if (this.giver.email) giftGiver.email = this.giver.email;
+    }
+    if (this.giftMessage) storyteller.message = this.giftMessage;
+    storyteller.giftGiverName = giftGiver.firstName;
+    return { storyteller, giftGiver };
+  }
+
+  /**
+   * Build the user(s) and register their inboxes, see TestDataGenerator.registerInboxes
+   */
+  async register(emailHandler: EmailHandler): Promise<BuiltPersona> {
+    const { storyteller, giftGiver } = await this.build();
+    return this.generator.registerInboxes(emailHandler, storyteller, giftGiver);
+  }
+
+  private applyOrderDetails(details: StoryTellerDetails | GiftGiverDetails) {
+    if (this.country) details.country = this.country;
+    if (this.state) details.state = this.state;
+    if (details.country !== ORDER_FORM_LIMITS.COUNTRY_WITH_STATES) details.state = undefined;
+    if (this.copyCount) details.copies = this.copyCount;
+  }
+
+  private static parseDate(date: string | Date): string {
+    if (date instanceof Date) return PersonaBuilder.formatDate(date);
+    if (date === 'today') return PersonaBuilder.formatDate(new Date());
+
+    const relative = date.match(/^\+(\d+)([dw])$/);
+    if (relative) {
+      const days = parseInt(relative[1], 10) * (relative[2] === 'w' ? 7 : 1);
+      return PersonaBuilder.formatDate(new Date(Date.now() + days * 24 * 60 * 60 * 1000));
+    }
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date))) return date;
+
+    throw new Error(`Unsupported gift date "${date}", use 'today', '+<n>d', '+<n>w' or YYYY-MM-DD`);
+  }
+
+  /**
+   * YYYY-MM-DD, the format the gift date field is filled with
+   */
+  private static formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
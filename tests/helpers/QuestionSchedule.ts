@@ -0,0 +1,122 @@
+import { EMAIL_CONFIG } from '../data/test.config';
+
+/**
+ * Weekly Question Schedule
+ *
+ * Works out when the next weekly question email is due, so tests wait for
+ * exactly that window and fail with "expected at T, not received by T+grace"
+ * instead of a generic timeout.
+ *
+ * - Production: the first question goes out right after the order, later ones
+ *   on the date shown on the dashboard ("Scheduled for ..."), some time that day
+ * - Sandbox: questions are sent on a compressed cadence counted from the order
+ *   time (SANDBOX_FIRST_QUESTION_DELAY, SANDBOX_QUESTION_INTERVAL); the
+ *   dashboard only tells how many were already sent
+ *
+ * @example
+ * const orderedAt = new Date();
+ * await TestFlowHelper.completeOrderFlow(page, user);
+ * const due = await emailHandler.getNextQuestionDue(page, orderedAt);
+ * await emailHandler.waitForWeeklyQuestionEmail(user.email, { firstName: user.firstName, due });
+ */
+
+export interface QuestionCadence {
+  FIRST_QUESTION: number;  // Delay from the order to the first question, in ms
+  INTERVAL: number;        // Delay between questions, in ms
+}
+
+export interface QuestionDue {
+  position: number;     // 1-based position of the question on the dashboard
+  cadence: 'sandbox' | 'production';
+  notBefore: Date;      // Emails before this are earlier questions
+  dueAt: Date;
+  deadline: Date;       // Due time plus grace
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export class QuestionSchedule {
+  constructor(
+    private readonly sandbox: boolean,
+    private readonly cadence: QuestionCadence = sandbox ? EMAIL_CONFIG.QUESTION_SCHEDULE.SANDBOX : EMAIL_CONFIG.QUESTION_SCHEDULE.PRODUCTION,
+    private readonly grace: number = EMAIL_CONFIG.QUESTION_SCHEDULE.GRACE
+  ) {
+    if (sandbox && !(Number.isFinite(cadence.FIRST_QUESTION) && Number.isFinite(cadence.INTERVAL))) {
+      throw new Error('Set SANDBOX_FIRST_QUESTION_DELAY and SANDBOX_QUESTION_INTERVAL to the sandbox question cadence, in ms');
+    }
+  }
+
+  /**
+   * Date of a dashboard schedule label like "Scheduled for Mar 3, 2025"
+   * @returns null for unscheduled questions (answered, already sent)
+   */
+  static parseScheduleDate(label: string): Date | null {
+    const match = label.match(/Scheduled for (.+)$/i);
+    if (!match) return null;
+    const date = new Date(match[1].trim());
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Test timeout that lasts until the question's deadline, so a late question
+   * fails with its schedule window rather than Playwright's generic timeout
+   * @param currentTimeout The test's timeout so far (testInfo.timeout), for the steps before the wait
+   * @param after Time the test still needs once the question arrived
+   * @example test.setTimeout(QuestionSchedule.testTimeout(due, testInfo.timeout));
+   */
+  static testTimeout(due: QuestionDue, currentTimeout: number, after: number = EMAIL_CONFIG.QUESTION_SCHEDULE.TEST_MARGIN): number {
+    return currentTimeout + QuestionSchedule.waitTimeout(due) + after;
+  }
+
+  /**
+   * How long to wait for the question from now: until its deadline, at most
+   * EMAIL_CONFIG.QUESTION_SCHEDULE.MAX_WAIT, and a second once it passed
+   */
+  static waitTimeout(due: QuestionDue): number {
+    return Math.min(Math.max(due.deadline.getTime() - Date.now(), 1000), EMAIL_CONFIG.QUESTION_SCHEDULE.MAX_WAIT);
+  }
+
+  /**
+   * When the next question email is due
+   * @param orderedAt When the order was paid
+   * @param scheduleDates Dashboard schedule labels, from QuestionsPage.getAllScheduleDates()
+   * @throws Error when no question is scheduled
+   */
+  nextDue(orderedAt: Date, scheduleDates: string[]): QuestionDue {
+    const index = scheduleDates.findIndex(label => QuestionSchedule.parseScheduleDate(label));
+    if (index < 0) {
+      throw new Error(`No scheduled question on the dashboard: ${JSON.stringify(scheduleDates)}`);
+    }
+
+    let notBefore: Date;
+    let dueAt: Date;
+    let deadline: Date;
+    if (this.sandbox) {
+      // Questions above the first scheduled one were already sent
+      dueAt = new Date(orderedAt.getTime() + this.cadence.FIRST_QUESTION + index * this.cadence.INTERVAL);
+      notBefore = index === 0 ? orderedAt : new Date(dueAt.getTime() - this.cadence.INTERVAL);
+      deadline = new Date(dueAt.getTime() + this.grace);
+    } else if (index === 0) {
+      // The first question follows the order, whatever day the dashboard shows
+      dueAt = new Date(orderedAt.getTime() + this.cadence.FIRST_QUESTION);
+      notBefore = orderedAt;
+      deadline = new Date(dueAt.getTime() + this.grace);
+    } else {
+      // Any time during the scheduled day
+      const day = QuestionSchedule.parseScheduleDate(scheduleDates[index])!;
+      dueAt = day;
+      notBefore = day;
+      deadline = new Date(day.getTime() + DAY + this.grace);
+    }
+
+    const due: QuestionDue = {
+      position: index + 1,
+      cadence: this.sandbox ? 'sandbox' : 'production',
+      notBefore: new Date(notBefore.getTime() - EMAIL_CONFIG.JOURNEY.CLOCK_SKEW),
+      dueAt,
+      deadline
+    };
+    console.log(`📅 Question ${due.position} due at ${dueAt.toISOString()} (${due.cadence}), deadline ${deadline.toISOString()}`);
+    return due;
+  }
+}
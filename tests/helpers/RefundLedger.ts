@@ -0,0 +1,160 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { randomUUID } from 'crypto';
+import { EMAIL_CONFIG } from '../data/test.config';
+import { getRunId } from './TestRun';
+
+/**
+ * Refund Ledger
+ *
+ * Every real card charge is appended here right after payment succeeds, so the
+ * backoffice has a durable list of test charges to refund. Refunds are appended
+ * as separate entries; nothing is ever rewritten. The reconciliation report
+ * lists the charges that have no refund yet.
+ *
+ * Written as JSON lines (the source of truth) and mirrored to CSV.
+ */
+
+export interface RefundCharge {
+  chargeId: string;
+  chargedAt: string;
+  runId: string;
+  orderId?: string;
+  amount: string;
+  cardLast4: string;
+  promoCode: string;
+  user: {
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  test?: string;
+}
+
+export interface RefundRecord {
+  chargeId: string;
+  refundedAt: string;
+  note?: string;
+}
+
+export interface RefundReport {
+  generatedAt: string;
+  unrefunded: RefundCharge[];
+  unrefundedTotal: string;
+  refundedCount: number;
+}
+
+type LedgerEntry = ({ type: 'charge' } & RefundCharge) | ({ type: 'refund' } & RefundRecord);
+
+const CSV_COLUMNS = ['type', 'chargeId', 'at', 'runId', 'orderId', 'amount', 'cardLast4', 'promoCode', 'firstName', 'lastName', 'email', 'test', 'note'];
+
+export class RefundLedger {
+  constructor(readonly filePath: string = EMAIL_CONFIG.REFUNDS.LEDGER_FILE) {}
+
+  get csvPath(): string {
+    return this.filePath.replace(/\.jsonl?$/, '') + '.csv';
+  }
+
+  /**
+   * Record a charge
+   * @returns The charge with its generated ID, time and run ID
+   */
+  recordCharge(details: Omit<RefundCharge, 'chargeId' | 'chargedAt' | 'runId'>): RefundCharge {
+    const charge: RefundCharge = {
+      chargeId: randomUUID(),
+      chargedAt: new Date().toISOString(),
+      runId: getRunId(),
+      ...details
+    };
+    this.append({ type: 'charge', ...charge });
+    console.log(`🧾 Recorded $${charge.amount} charge on ****${charge.cardLast4} in ${this.filePath} (${charge.chargeId})`);
+    return charge;
+  }
+
+  /**
+   * Record that a charge was refunded
+   * @param id Charge ID or order ID
+   * @throws Error when no unrefunded charge matches
+   */
+  markRefunded(id: string, note?: string): RefundRecord {
+    const charge = this.unrefunded().find(candidate => candidate.chargeId === id || candidate.orderId === id);
+    if (!charge) {
+      throw new Error(`No unrefunded charge with charge or order ID: ${id}`);
+    }
+    const refund: RefundRecord = { chargeId: charge.chargeId, refundedAt: new Date().toISOString(), note };
+    this.append({ type: 'refund', ...refund });
+    console.log(`🧾 Marked charge ${charge.chargeId} as refunded`);
+    return refund;
+  }
+
+  charges(): RefundCharge[] {
+    return this.read().filter((entry): entry is { type: 'charge' } & RefundCharge => entry.type === 'charge');
+  }
+
+  refunds(): RefundRecord[] {
+    return this.read().filter((entry): entry is { type: 'refund' } & RefundRecord => entry.type === 'refund');
+  }
+
+  unrefunded(): RefundCharge[] {
+    const refunded = new Set(this.refunds().map(refund => refund.chargeId));
+    return this.charges().filter(charge => !refunded.has(charge.chargeId));
+  }
+
+  /**
+   * Charges still waiting for a refund, oldest first
+   */
+  report(): RefundReport {
+    const unrefunded = this.unrefunded();
+    const cents = unrefunded.reduce((sum, charge) => sum + Math.round(parseFloat(charge.amount) * 100), 0);
+    return {
+      generatedAt: new Date().toISOString(),
+      unrefunded,
+      unrefundedTotal: (cents / 100).toFixed(2),
+      refundedCount: this.refunds().length
+    };
+  }
+
+  /**
+   * Plain text version of a report, for logs and email
+   */
+  static formatReport(report: RefundReport): string {
+    const lines = report.unrefunded.map(charge =>
+      `- ${charge.chargedAt}  $${charge.amount}  ****${charge.cardLast4}  ${charge.promoCode}  ` +
+      `${charge.user.firstName} ${charge.user.lastName} <${charge.user.email}>  ` +
+      `order ${charge.orderId || 'unknown'}  run ${charge.runId}  (${charge.chargeId})`
+    );
+    return [
+      `Unrefunded real card charges as of ${report.generatedAt}: ${report.unrefunded.length} totalling $${report.unrefundedTotal}`,
+      `Already refunded: ${report.refundedCount}`,
+      '',
+      ...(lines.length ? lines : ['Nothing to refund.'])
+    ].join('\n');
+  }
+
+  private read(): LedgerEntry[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    return fs.readFileSync(this.filePath, 'utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+  }
+
+  private append(entry: LedgerEntry): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+
+    if (!fs.existsSync(this.csvPath)) {
+      fs.appendFileSync(this.csvPath, CSV_COLUMNS.join(',') + '\n');
+    }
+    const row = entry.type === 'charge' ?
+      ['charge', entry.chargeId, entry.chargedAt, entry.runId, entry.orderId, entry.amount, entry.cardLast4,
+        entry.promoCode, entry.user.firstName, entry.user.lastName, entry.user.email, entry.test, ''] :
+      ['refund', entry.chargeId, entry.refundedAt, '', '', '', '', '', '', '', '', '', entry.note];
+    fs.appendFileSync(this.csvPath, row.map(value => this.csvValue(value)).join(',') + '\n');
+  }
+
+  private csvValue(value: string | undefined): string {
+    const text = value ?? '';
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
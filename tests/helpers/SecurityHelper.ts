@@ -1,4 +1,4 @@
-import { Page, expect } from '@playwright/test';
+import { Page, Route, expect } from '@playwright/test';
 import { SECURITY_CONFIG } from '../data/security.config';
 import { ScreenshotHelper } from './ScreenshotHelper';
 import { TextEditorHelper } from './TextEditorHelper';
@@ -27,6 +27,9 @@ import { CookieConsentOption } from '../pages/BasePage';
  *    - Privacy setting persistence
  *    - Data protection features
  * 
+ * 4. Header Injection:
+ *    - Raw line breaks written into submitted requests
+ * 
  * Each method includes:
  * - Detailed logging for debugging
  * - Screenshot capture for evidence
@@ -344,6 +347,35 @@ export class SecurityHelper {
     expect(isEnabled).toBe(SECURITY_CONFIG.PRIVACY_TEST_DATA.PRIVACY_SETTINGS[setting]);
   }
 
+  /**
+   * Replace a marker with raw text in every request the page submits
+   * 
+   * Browsers strip line breaks from text inputs, so payloads with a raw CR LF
+   * are typed with a marker and rewritten on the way out, encoded the way the
+   * request body is (JSON or form data). Call the returned function to stop.
+   * 
+   * @param marker Placeholder typed into the form, e.g. '__CRLF__'
+   * @param raw Text the server should receive instead, e.g. '\r\n'
+   */
+  async injectRawOnSubmit(marker: string, raw: string): Promise<() => Promise<void>> {
+    const handler = async (route: Route) => {
+      const request = route.request();
+      const body = request.postData();
+      if (!body || !body.includes(marker)) {
+        await route.fallback();
+        return;
+      }
+      const contentType = request.headers()['content-type'] || '';
+      const replacement = contentType.includes('json') ? JSON.stringify(raw).slice(1, -1) :
+        contentType.includes('x-www-form-urlencoded') ? encodeURIComponent(raw) :
+        raw;
+      console.log(`Injecting raw ${JSON.stringify(raw)} into ${request.method()} ${request.url()}`);
+      await route.fallback({ postData: body.split(marker).join(replacement) });
+    };
+    await this.page.route('**/*', handler);
+    return () => this.page.unroute('**/*', handler);
+  }
+
   /**
    * Intercept payment API requests to verify prices
    * 
@@ -0,0 +1,55 @@
+/**
+ * Seeded Random Numbers
+ *
+ * A small deterministic generator (mulberry32) so random test data can be
+ * replayed: the same seed always gives the same sequence of choices.
+ */
+
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: string) {
+    this.state = SeededRandom.hash(seed);
+  }
+
+  /**
+   * A new short seed, e.g. "k3f9x2a1"
+   */
+  static createSeed(): string {
+    return Math.random().toString(36).slice(2, 10).padEnd(8, '0');
+  }
+
+  /**
+   * Next number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [min, max], both inclusive
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(array: readonly T[]): T {
+    return array[Math.floor(this.next() * array.length)];
+  }
+
+  /**
+   * 32-bit FNV-1a hash of the seed text
+   */
+  private static hash(text: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -5,13 +5,19 @@
  * - User profiles for different test scenarios
  * - Integration with email testing systems
  * - Support for both random and hardcoded data modes
- * - Unique email generation with timestamps (e.g., john.smith.1738837932@test.com)
+ * - Seeded choices: TEST_DATA_SEED=<seed> replays the exact same users
+ * - Boundary and internationalized names from a persona (see personas.config.ts)
+ * - Unique email generation with a run ID suffix (e.g., john.smith.20250301142233k3f9.0-1@test.com)
  * 
  * This helper ensures consistent and reliable test data across the test suite
  */
 
+import { TestInfo } from '@playwright/test';
 import { EmailHandler, EmailMode } from './EmailHandler';
+import { SeededRandom } from './SeededRandom';
+import { getRunId } from './TestRun';
 import { TEST_USER_DEFAULTS } from '../data/test.config';
+import { Persona } from '../data/personas.config';
 
 /**
  * Interface defining the structure of a story teller's details
@@ -51,6 +57,7 @@ interface GenerateOptions {
   withState?: boolean;     // For random data: if true, use US/state
   isGiftRecipient?: boolean; // For hardcoded data: which defaults to use
   giftDate?: string;      // For gift orders: scheduled delivery date
+  persona?: Persona;      // For random data: use this persona's names (and gift message for recipients)
 }
 
 /**
@@ -65,12 +72,19 @@ interface CreateTestUserOptions extends GenerateOptions {
  * Generates test data for various testing scenarios
  * 
  * Features:
- * - Random data generation with realistic values
+ * - Random data generation with realistic values, reproducible from a seed
  * - Support for hardcoded test data
  * - Email integration for communication testing
  * - Gift flow support with multiple user profiles
  */
 export class TestDataGenerator {
+  /**
+   * Emails made by this process so far, keeps replayed names unique within a run
+   */
+  private static emailCount = 0;
+
+  private readonly random: SeededRandom;
+
   /**
    * Sample data for random generation
    * Used when hardcoded mode is disabled
@@ -81,31 +95,56 @@ export class TestDataGenerator {
   private readonly countries = ['United States', 'Canada', 'United Kingdom'];
   private readonly usStates = ['California', 'New York', 'Texas', 'Florida', 'Arizona'];
 
+  /**
+   * @param testInfo The seed is added to this test's annotations
+   * @param seed Drives every random choice. Defaults to TEST_DATA_SEED, or a new seed
+   */
+  constructor(testInfo?: TestInfo, seed: string = process.env.TEST_DATA_SEED || SeededRandom.createSeed()) {
+    this.random = new SeededRandom(seed);
+    console.log(`🎲 Test data seed: ${seed} (replay with TEST_DATA_SEED=${seed})`);
+    testInfo?.annotations.push({ type: 'test-data-seed', description: seed });
+  }
+
+  /**
+   * Seed of this generator's choices
+   */
+  get seed(): string {
+    return this.random.seed;
+  }
+
   /**
    * Selects a random element from an array
    * Used for generating random but realistic test data
    */
   private getRandomElement<T>(array: T[]): T {
-    return array[Math.floor(Math.random() * array.length)];
+    return this.random.pick(array);
   }
 
   /**
-   * Generates a deterministic email address from name components
-   * Ensures consistent email format for test users
-   */
-  /**
-   * Generates an email address with timestamp to ensure uniqueness
-   * Format: firstname.lastname.timestamp@domain
-   * Example: john.smith.1738837932@test.com
+   * Generates an email address with the run ID to ensure uniqueness,
+   * also when a seed replays the same names. Names are reduced to ASCII
+   * letters and digits, so persona names give valid addresses
+   * Format: firstname.lastname.runid.worker-count@domain
+   * Example: john.smith.20250301142233k3f9.0-1@test.com
    * 
    * @param firstName First name component
    * @param lastName Last name component
-   * @returns Unique email address with timestamp
+   * @returns Unique email address
    */
   private generateEmail(firstName: string, lastName: string): string {
     const domain = this.getRandomElement(this.domains);
-    const timestamp = Math.floor(Date.now() / 1000);  // Unix epoch
-    return `${firstName.toLowerCase()}.${lastName.toLowerCase()}.${timestamp}@${domain}`;
+    const run = getRunId().replace(/^run-/, '').replace(/-/g, '');
+    const worker = process.env.TEST_WORKER_INDEX || '0';
+    return `${this.toLocalPart(firstName)}.${this.toLocalPart(lastName)}.${run}.${worker}-${++TestDataGenerator.emailCount}@${domain}`;
+  }
+
+  /**
+   * ASCII form of a name for an email address, e.g. "Müller-Lefèvre" -> "mullerlefevre"
+   * Scripts without ASCII letters (CJK, Hebrew, Arabic) fall back to "user"
+   */
+  private toLocalPart(name: string): string {
+    const ascii = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+    return ascii.slice(0, 20) || 'user';
   }
 
   /**
@@ -134,8 +173,11 @@ export class TestDataGenerator {
    * @returns Promise<StoryTellerDetails> - Generated user profile
    */
   async generateStoryTeller(options: GenerateOptions = {}): Promise<StoryTellerDetails> {
-    const firstName = this.getRandomElement(this.firstNames);
-    const lastName = this.getRandomElement(this.lastNames);
+    // Always draw the random names, so a persona does not shift the seeded choices after it
+    const randomFirstName = this.getRandomElement(this.firstNames);
+    const randomLastName = this.getRandomElement(this.lastNames);
+    const firstName = options.persona?.firstName ?? randomFirstName;
+    const lastName = options.persona?.lastName ?? randomLastName;
     
     // By default, generate random data
     if (!options.useHardcoded) {
@@ -145,8 +187,9 @@ export class TestDataGenerator {
         email: this.generateEmail(firstName, lastName),
         country: options.withState ? 'United States' : this.getRandomElement(this.countries),
         state: options.withState ? this.getRandomElement(this.usStates) : undefined,
-        copies: Math.floor(Math.random() * 3) + 1,  // Random 1-3 copies
-        giftDate: options.giftDate
+        copies: this.random.int(1, 3),  // Random 1-3 copies
+        giftDate: options.giftDate,
+        message: options.isGiftRecipient ? options.persona?.giftMessage : undefined
       };
     }
 
@@ -165,8 +208,10 @@ export class TestDataGenerator {
    * @returns Promise<GiftGiverDetails> - Generated gift giver profile
    */
   async generateGiftGiver(options: GenerateOptions = {}): Promise<GiftGiverDetails> {
-    const firstName = this.getRandomElement(this.firstNames);
-    const lastName = this.getRandomElement(this.lastNames);
+    const randomFirstName = this.getRandomElement(this.firstNames);
+    const randomLastName = this.getRandomElement(this.lastNames);
+    const firstName = options.persona?.firstName ?? randomFirstName;
+    const lastName = options.persona?.lastName ?? randomLastName;
     
     // By default, generate random data
     if (!options.useHardcoded) {
@@ -176,7 +221,7 @@ export class TestDataGenerator {
         email: this.generateEmail(firstName, lastName),
         country: options.withState ? 'United States' : this.getRandomElement(this.countries),
         state: options.withState ? this.getRandomElement(this.usStates) : undefined,
-        copies: Math.floor(Math.random() * 3) + 1  // Random 1-3 copies
+        copies: this.random.int(1, 3)  // Random 1-3 copies
       };
     }
 
@@ -209,36 +254,44 @@ export class TestDataGenerator {
         isGiftRecipient: true
       });
 
-      if (emailHandler.getMode() === EmailMode.MAILSLURP) {
-        // Create MailSlurp inboxes
-        const storytellerEmail = await emailHandler.createMailSlurpInbox();
-        const giftGiverEmail = await emailHandler.createMailSlurpInbox();
-        storyteller.email = storytellerEmail;
-        giftGiver.email = giftGiverEmail;
-      }
-
-      // Register inboxes (works for all modes)
-      await emailHandler.registerInbox(storyteller.email, true);
-      await emailHandler.registerInbox(giftGiver.email);
-
       // Set gift giver name
       storyteller.giftGiverName = giftGiver.firstName;
 
-      return { storyteller, giftGiver };
+      return this.registerInboxes(emailHandler, storyteller, giftGiver);
     } else {
       // Create single user
       const storyteller = await this.generateStoryTeller(options);
-      
-      if (emailHandler.getMode() === EmailMode.MAILSLURP) {
-        // Create and use MailSlurp inbox
-        const email = await emailHandler.createMailSlurpInbox();
-        storyteller.email = email;
-      }
+      return this.registerInboxes(emailHandler, storyteller);
+    }
+  }
 
-      // Register inbox (works for all modes)
-      await emailHandler.registerInbox(storyteller.email);
+  /**
+   * Registers the users' inboxes with the email handler
+   * In MailSlurp mode each user first gets a new inbox, replacing the generated address
+   * 
+   * @param emailHandler - Email testing utility instance
+   * @param storyteller - Self-order user, or gift recipient when a gift giver is given
+   * @param giftGiver - Gift giver of a gift flow
+   * @returns The same users, with their registered addresses
+   */
+  async registerInboxes(emailHandler: EmailHandler, storyteller: StoryTellerDetails, giftGiver?: GiftGiverDetails): Promise<{
+    storyteller: StoryTellerDetails;
+    giftGiver?: GiftGiverDetails;
+  }> {
+    if (emailHandler.getMode() === EmailMode.MAILSLURP) {
+      // Create MailSlurp inboxes
+      storyteller.email = await emailHandler.createMailSlurpInbox();
+      if (giftGiver) {
+        giftGiver.email = await emailHandler.createMailSlurpInbox();
+      }
+    }
 
-      return { storyteller };
+    // Register inboxes (works for all modes)
+    await emailHandler.registerInbox(storyteller.email, !!giftGiver, storyteller);
+    if (giftGiver) {
+      await emailHandler.registerInbox(giftGiver.email, false, giftGiver);
     }
+
+    return giftGiver ? { storyteller, giftGiver } : { storyteller };
   }
 }
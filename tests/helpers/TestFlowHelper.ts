@@ -6,6 +6,7 @@ import { PaymentPage, stripeTestCards } from '../pages/PaymentPage';
 import { QuestionsPage } from '../pages/QuestionsPage';
 import { CookieConsentOption } from '../pages/BasePage';
 import { StoryTellerDetails } from './TestDataGenerator';
+import { URLS } from '../data/test.config';
 
 export class TestFlowHelper {
   /**
@@ -31,17 +32,16 @@ export class TestFlowHelper {
     await homePage.startOrderFlow(CookieConsentOption.ALLOW_ALL);
     await orderPage.selectOrderType(options.isGiftFlow ? 'Someone else' : 'I will');
     
-    // Add state for US orders
-    const detailsWithState = {
-      ...userDetails,
-      state: userDetails.country === 'United States' ? 'California' : undefined
-    };
+    // The form requires a state for US orders: default one only when none was chosen
+    const details = userDetails.country === 'United States' && !userDetails.state
+      ? { ...userDetails, state: 'California' }
+      : userDetails;
 
     if (options.isGiftFlow) {
-      await storyDetailsPage.fillStoryTellerDetails(detailsWithState);
-      await storyDetailsPage.fillGiftGiverDetails(detailsWithState, true);
+      await storyDetailsPage.fillStoryTellerDetails(details);
+      await storyDetailsPage.fillGiftGiverDetails(details, true);
     } else {
-      await storyDetailsPage.fillGiftGiverDetails(detailsWithState);
+      await storyDetailsPage.fillGiftGiverDetails(details);
     }
     
     await paymentPage.completePayment(stripeTestCards.success, options.isGiftFlow);
@@ -76,4 +76,14 @@ export class TestFlowHelper {
     await paymentPage.visitDashboard();
     await questionsPage.waitForDashboard();
   }
+
+  /**
+   * Open the dashboard of a logged in account, e.g. a pooled account's page
+   * @param page Playwright page with the account's storageState
+   */
+  static async openDashboard(page: Page) {
+    console.log('Opening dashboard');
+    await page.goto(URLS.APP);
+    await new QuestionsPage(page).waitForDashboard();
+  }
 }
@@ -0,0 +1,70 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { TEST_STATE } from '../data/test.config';
+
+/**
+ * Test Run Utilities
+ *
+ * A run ID shared by the runner and all workers (set once by setup.ts, or on
+ * first use by scripts), and paths inside the test state directory.
+ */
+
+/**
+ * ID of the current test run, e.g. run-20250301-142233-k3f9
+ */
+export function getRunId(): string {
+  if (!process.env.TEST_RUN_ID) {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    process.env.TEST_RUN_ID = `run-${stamp}-${Math.random().toString(36).slice(2, 6)}`;
+  }
+  return process.env.TEST_RUN_ID;
+}
+
+/**
+ * Path of a file in the test state directory, creating the directory if needed
+ */
+export function getStatePath(fileName: string): string {
+  fs.mkdirSync(TEST_STATE.DIR, { recursive: true });
+  return path.join(TEST_STATE.DIR, fileName);
+}
+
+/**
+ * Run a function while holding a lock file, so workers and scripts change
+ * shared test state one at a time
+ * @param timeout Longest a holder may keep the lock: an older lock file is taken
+ * to be left by a crashed process and removed
+ */
+export async function withFileLock<T>(lockPath: string, fn: () => T | Promise<T>, timeout: number = 30000): Promise<T> {
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });  // Holder's PID, for debugging
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    const age = lockAge(lockPath);
+    if (age > timeout) {
+      console.warn(`⚠️ Removing stale lock ${lockPath}, taken ${Math.round(age / 1000)}s ago`);
+      fs.rmSync(lockPath, { force: true });
+      continue;
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  try {
+    return await fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * How long ago the lock was taken, 0 when it was just released
+ */
+function lockAge(lockPath: string): number {
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+    throw error;
+  }
+}
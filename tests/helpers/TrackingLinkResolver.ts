@@ -0,0 +1,123 @@
+import { TestInfo } from '@playwright/test';
+import { EMAIL_CONFIG } from '../data/test.config';
+
+/**
+ * Tracking Link Resolver
+ *
+ * Email buttons point at customer.io click-tracking redirects, so checking the
+ * link prefix says nothing about where the user lands. This resolves each
+ * tracking link to its final app URL without opening the app, so single-use
+ * login/activation tokens are not consumed:
+ * 1. Decode the href from the tracking payload (e/c/<base64url JSON>/<signature>)
+ * 2. Otherwise follow tracker redirects manually and stop at the first non-tracker URL
+ */
+
+export type LinkRoute = keyof typeof EMAIL_CONFIG.LINK_DESTINATIONS.ROUTES;
+
+export interface ResolvedLink {
+  trackingUrl: string;
+  destination: string;
+  method: 'decoded' | 'redirect';
+  route?: LinkRoute;
+  utm: Record<string, string>;
+  problems: string[];
+}
+
+export class TrackingLinkResolver {
+  /**
+   * Resolve a tracking link to its destination
+   * Links that are not tracking links resolve to themselves
+   */
+  async resolve(link: string): Promise<ResolvedLink> {
+    let destination = this.decode(link);
+    let method: ResolvedLink['method'] = 'decoded';
+
+    if (!destination) {
+      destination = await this.followRedirects(link);
+      method = 'redirect';
+    }
+
+    const url = new URL(destination);
+    const utm: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => {
+      if (key.startsWith('utm_')) utm[key] = value;
+    });
+    const route = (Object.keys(EMAIL_CONFIG.LINK_DESTINATIONS.ROUTES) as LinkRoute[])
+      .find(name => url.host === EMAIL_CONFIG.LINK_DESTINATIONS.HOST && EMAIL_CONFIG.LINK_DESTINATIONS.ROUTES[name].test(url.pathname));
+
+    console.log(`🔗 Resolved ${method} link to ${url.origin}${url.pathname} (${route || 'unknown route'})`);
+    return { trackingUrl: link, destination, method, route, utm, problems: [] };
+  }
+
+  /**
+   * Resolve a link and check it lands on the expected route with utm parameters kept
+   * Problems are recorded on the result rather than thrown
+   */
+  async resolveAndVerify(link: string, expectedRoute: LinkRoute): Promise<ResolvedLink> {
+    const resolved = await this.resolve(link);
+    const url = new URL(resolved.destination);
+
+    if (url.protocol !== 'https:') {
+      resolved.problems.push(`Destination is not https: ${url.protocol}`);
+    }
+    if (url.host !== EMAIL_CONFIG.LINK_DESTINATIONS.HOST) {
+      resolved.problems.push(`Destination host is ${url.host}, expected ${EMAIL_CONFIG.LINK_DESTINATIONS.HOST}`);
+    }
+    if (resolved.route !== expectedRoute) {
+      resolved.problems.push(`Destination ${url.pathname} is the ${resolved.route || 'unknown'} route, expected ${expectedRoute}`);
+    }
+    const missingUtm = EMAIL_CONFIG.LINK_DESTINATIONS.REQUIRED_UTM.filter(param => !resolved.utm[param]);
+    if (missingUtm.length) {
+      resolved.problems.push(`Missing utm parameters: ${missingUtm.join(', ')}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Attach the resolved link map to the test report
+   */
+  async attach(links: Record<string, ResolvedLink>, testInfo: TestInfo): Promise<void> {
+    await testInfo.attach('email-links', {
+      body: JSON.stringify(links, null, 2),
+      contentType: 'application/json'
+    });
+  }
+
+  /**
+   * Read the href from a customer.io tracking payload
+   * @returns The destination, or undefined when the link cannot be decoded
+   */
+  private decode(link: string): string | undefined {
+    if (!link.startsWith(EMAIL_CONFIG.LINK_PATTERNS.BASE)) {
+      return link;
+    }
+
+    const payload = new URL(link).pathname.match(/^\/e\/c\/([A-Za-z0-9_-]+)/)?.[1];
+    if (!payload) return undefined;
+    try {
+      const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      return typeof decoded.href === 'string' ? decoded.href : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Follow tracker redirects without fetching the destination itself
+   */
+  private async followRedirects(link: string): Promise<string> {
+    let current = link;
+    for (let hop = 0; hop < EMAIL_CONFIG.LINK_DESTINATIONS.MAX_REDIRECTS; hop++) {
+      if (!current.startsWith(EMAIL_CONFIG.LINK_PATTERNS.BASE)) {
+        return current;
+      }
+      const response = await fetch(current, { method: 'GET', redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (!location) {
+        throw new Error(`Tracking link did not redirect (status ${response.status}): ${current}`);
+      }
+      current = new URL(location, current).toString();
+    }
+    throw new Error(`Too many tracking redirects for: ${link}`);
+  }
+}
@@ -47,7 +47,8 @@ export class VisualTestHelper {
     const screenshotBuffer = await page.screenshot({
       fullPage: true,
       animations: 'disabled',
-      scale: 'css'
+      scale: 'css',
+      mask: options.mask?.map(selector => page.locator(selector))
     });
     await fs.writeFile(actualPath, screenshotBuffer);
 
@@ -108,6 +109,71 @@ export class VisualTestHelper {
     }
   }
 
+  /**
+   * Compare a rendered email with its baselines at every configured viewport
+   * Dynamic names, dates and tokens are replaced by fixed masked text first,
+   * so only template changes show up as differences
+   * @param page Playwright page to render the email in
+   * @param html The email HTML
+   * @param options.name Email name, e.g. 'welcome' (baselines are email-<name>-<viewport>.png)
+   * @param options.maskText Dynamic values to mask, e.g. the user's first and last name
+   * @param testInfo Test information for attaching artifacts to report
+   */
+  async compareEmail(page: Page, html: string, options: {
+    name: string;
+    maskText?: string[];
+    sensitivity?: number;
+  }, testInfo: TestInfo): Promise<void> {
+    const rendering = this.config.emailRendering;
+    const maskedHtml = this.maskEmailHtml(html, options.maskText || []);
+    const failures: string[] = [];
+
+    for (const [viewportName, viewport] of Object.entries(rendering.viewports)) {
+      await page.setViewportSize(viewport);
+      await page.setContent(maskedHtml, { waitUntil: 'load' });
+      try {
+        await this.compareScreenshot(page, {
+          name: `email-${options.name}-${viewportName}`,
+          sensitivity: options.sensitivity,
+          mask: [rendering.maskSelector],
+          metadata: {
+            description: `Email ${options.name} at ${viewportName} width`,
+            viewport
+          }
+        }, testInfo);
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (failures.length) {
+      throw new Error(failures.join('\n'));
+    }
+  }
+
+  /**
+   * Replace dynamic text in an email with fixed, masked placeholders
+   * Only text between tags is changed, never tag names or attributes
+   */
+  maskEmailHtml(html: string, maskText: string[]): string {
+    const rendering = this.config.emailRendering;
+    const mask = (label: string) => `<span data-visual-mask>${label}</span>`;
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const names = maskText.filter(text => text.trim().length > 0).sort((a, b) => b.length - a.length);
+
+    return html.replace(/(<(style|title|script)\b[\s\S]*?<\/\2>)|(<[^>]+>)|([^<]+)/gi, (segment, skipped, _tag, tag, text) => {
+      if (skipped || tag || !text) return segment;
+      let masked = text;
+      for (const name of names) {
+        masked = masked.replace(new RegExp(escape(name), 'g'), mask('Name'));
+      }
+      for (const pattern of rendering.datePatterns) {
+        masked = masked.replace(pattern, mask('Date'));
+      }
+      return masked.replace(rendering.tokenPattern, mask('Token'));
+    });
+  }
+
   private async ensureDirectories(): Promise<void> {
     const dirs = Object.values(this.config.directories);
     for (const dir of dirs) {
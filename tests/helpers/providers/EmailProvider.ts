@@ -0,0 +1,116 @@
+/**
+ * Email Provider Contract
+ *
+ * EmailHandler talks to a mail backend only through this interface, so backends
+ * can be swapped per environment without touching the specs:
+ * - MailSlurpProvider: real temporary inboxes (MailSlurp API)
+ * - MailpitProvider: Mailpit/MailHog-style HTTP mail catcher
+ * - LocalSmtpProvider: in-process SMTP capture server
+ * - ReplayEmailProvider: emails recorded earlier with EmailFixtureStore
+ * - HardcodedEmailProvider / FakeEmailProvider: no delivery, canned emails
+ */
+
+import { EmailQuery } from './EmailQuery';
+
+/**
+ * An email as seen by the tests
+ */
+export interface Email {
+  id: string;
+  subject: string;
+  body: string;
+  html?: string;
+  from: string;
+  to: string[];
+  timestamp: Date;
+  headers?: Record<string, string>;
+}
+
+/**
+ * An inbox created by a provider
+ */
+export interface Inbox {
+  id: string;
+  emailAddress: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+/**
+ * An email sent from one of the provider's inboxes
+ */
+export interface OutgoingEmail {
+  to: string[];
+  subject: string;
+  body: string;
+  isHTML?: boolean;
+  attachments?: EmailAttachment[];
+  headers?: Record<string, string>;
+}
+
+/**
+ * Which recorded email stands in for an expected one, and the current
+ * test user's values to fill its placeholders with (see EmailFixtureStore)
+ */
+export interface EmailFixtureRef {
+  type: string;
+  values: Record<string, string>;
+}
+
+/**
+ * Criteria for waiting on an email (see EmailQuery)
+ */
+export interface WaitForEmailOptions extends EmailQuery {
+  timeout?: number;
+  isRecipient?: boolean;     // Mock providers: which configured address the email is for
+  fixture?: EmailFixtureRef; // Replay provider: which recorded email to serve
+}
+
+export interface EmailProvider {
+  /** Human readable backend name, used in logs */
+  readonly name: string;
+
+  /**
+   * Whether emails are really delivered somewhere we can read them, so sent
+   * replies arrive and raw messages are available.
+   * False for mock and replay providers.
+   */
+  readonly delivers: boolean;
+
+  /**
+   * Whether emails have real content to check, delivered or replayed from a recording.
+   * False for mock providers, which return canned content instead.
+   */
+  readonly hasContent: boolean;
+
+  /** Create a new inbox and return its ID and address */
+  createInbox(): Promise<Inbox>;
+
+  /**
+   * Resolve the inbox ID for an address used by a test user
+   * @returns The inbox ID, or undefined when the address has no inbox in this backend
+   */
+  registerInbox(email: string, isRecipient: boolean): Promise<string | undefined>;
+
+  /** All emails currently in an inbox, oldest first (content may be partial) */
+  listEmails(inboxId: string): Promise<Email[]>;
+
+  /** Wait until an email matching the query arrives, scanning the whole inbox */
+  waitForEmail(inboxId: string, options: WaitForEmailOptions): Promise<Email>;
+
+  /** Full email including HTML, text and headers */
+  getEmail(emailId: string): Promise<Email>;
+
+  /** The raw, unparsed MIME message */
+  getRawEmail(emailId: string): Promise<string>;
+
+  /** Send an email from one of the provider's inboxes */
+  sendEmail(fromInboxId: string, email: OutgoingEmail): Promise<void>;
+
+  /** Reply to an email from the inbox it was delivered to, keeping the subject */
+  replyToEmail(fromInboxId: string, email: Email, reply: Omit<OutgoingEmail, 'to' | 'subject'>): Promise<void>;
+}
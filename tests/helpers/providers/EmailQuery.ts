@@ -0,0 +1,217 @@
+/**
+ * Email Query Matching
+ *
+ * Finds an email by predicate instead of taking whatever arrived last:
+ * - Subject: exact text, regex, or a SUBJECTS template with {placeholders}
+ * - Sender address
+ * - Received after a timestamp
+ * - Body (text or HTML) contains one or more strings
+ * - Nth match, oldest first (defaults to the latest match)
+ *
+ * The whole inbox is scanned on every poll. On timeout the error lists every
+ * message that was seen and why it was rejected.
+ */
+
+import { Email } from './EmailProvider';
+
+/**
+ * A SUBJECTS template, e.g. EMAIL_CONFIG.SUBJECTS.GIFT_RECEIVE
+ * Placeholders without a param match any text
+ */
+export interface SubjectTemplate {
+  template: string;
+  params?: Record<string, string | undefined>;
+}
+
+export interface EmailQuery {
+  subject?: string | RegExp | SubjectTemplate;
+  from?: string;
+  receivedAfter?: Date;
+  bodyContains?: string | string[];
+  nth?: number;  // 1-based, oldest first. Latest match when omitted
+}
+
+/**
+ * Where matching reads emails from
+ * listEmails may return partial emails; getEmail returns the full content
+ */
+export interface EmailSource {
+  listEmails(inboxId: string): Promise<Email[]>;
+  getEmail(emailId: string): Promise<Email>;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Turn a subject template into a regex, substituting known params
+ */
+export function subjectTemplateToRegExp(subject: SubjectTemplate): RegExp {
+  const pattern = subject.template
+    .split(/(\{\w+\})/)
+    .map(part => {
+      const placeholder = part.match(/^\{(\w+)\}$/);
+      if (!placeholder) return escapeRegExp(part);
+      const value = subject.params?.[placeholder[1]];
+      return value !== undefined ? escapeRegExp(value) : '.+';
+    })
+    .join('');
+  return new RegExp(`^${pattern}$`);
+}
+
+function subjectMatches(actual: string, expected: string | RegExp | SubjectTemplate): boolean {
+  if (typeof expected === 'string') return actual === expected;
+  if (expected instanceof RegExp) return expected.test(actual);
+  return subjectTemplateToRegExp(expected).test(actual);
+}
+
+/**
+ * Bare lowercased address from "Name <address>" or "address"
+ */
+function address(from: string): string {
+  const bracketed = from.match(/<([^>]+)>/);
+  return (bracketed ? bracketed[1] : from).trim().toLowerCase();
+}
+
+function bodyTerms(query: EmailQuery): string[] {
+  if (!query.bodyContains) return [];
+  return Array.isArray(query.bodyContains) ? query.bodyContains : [query.bodyContains];
+}
+
+/**
+ * Why an email does not match the header part of a query (subject, sender, time)
+ * @returns The reason, or undefined when it matches
+ */
+export function headerMismatch(email: Email, query: EmailQuery): string | undefined {
+  if (query.subject !== undefined && !subjectMatches(email.subject, query.subject)) {
+    return `subject does not match ${describeSubject(query.subject)}`;
+  }
+  if (query.from && address(email.from) !== address(query.from)) {
+    return `sender is not ${query.from}`;
+  }
+  if (query.receivedAfter && email.timestamp.getTime() <= query.receivedAfter.getTime()) {
+    return `received before ${query.receivedAfter.toISOString()}`;
+  }
+  return undefined;
+}
+
+/**
+ * Why a full email does not match the body part of a query
+ * @returns The reason, or undefined when it matches
+ */
+export function bodyMismatch(email: Email, query: EmailQuery): string | undefined {
+  const content = `${email.body}\n${email.html || ''}`;
+  const missing = bodyTerms(query).filter(term => !content.includes(term));
+  return missing.length ? `body does not contain ${missing.map(term => `"${term}"`).join(', ')}` : undefined;
+}
+
+function describeSubject(subject: string | RegExp | SubjectTemplate): string {
+  if (typeof subject === 'string') return `"${subject}"`;
+  if (subject instanceof RegExp) return subject.toString();
+  return subjectTemplateToRegExp(subject).toString();
+}
+
+/**
+ * Short description of a query for logs and errors
+ */
+export function describeQuery(query: EmailQuery): string {
+  const parts: string[] = [];
+  if (query.subject !== undefined) parts.push(`subject ${describeSubject(query.subject)}`);
+  if (query.from) parts.push(`from ${query.from}`);
+  if (query.receivedAfter) parts.push(`after ${query.receivedAfter.toISOString()}`);
+  if (query.bodyContains) parts.push(`body contains ${bodyTerms(query).map(term => `"${term}"`).join(', ')}`);
+  if (query.nth) parts.push(`match #${query.nth}`);
+  return parts.length ? parts.join(', ') : 'any email';
+}
+
+export interface InboxScan {
+  email?: Email;
+  matches: number;
+  rejected: { email: Email; reason: string }[];
+}
+
+/**
+ * Scan an inbox once
+ * @returns The selected full email, plus what was rejected and why
+ */
+export async function scanInbox(
+  source: EmailSource,
+  inboxId: string,
+  query: EmailQuery,
+  fullEmails: Map<string, Email> = new Map()
+): Promise<InboxScan> {
+  const rejected: InboxScan['rejected'] = [];
+  const matches: Email[] = [];
+  const needsBody = bodyTerms(query).length > 0;
+
+  for (const listed of await source.listEmails(inboxId)) {
+    const headerReason = headerMismatch(listed, query);
+    if (headerReason) {
+      rejected.push({ email: listed, reason: headerReason });
+      continue;
+    }
+
+    let email = listed;
+    if (needsBody) {
+      email = fullEmails.get(listed.id) || await source.getEmail(listed.id);
+      fullEmails.set(email.id, email);
+      const bodyReason = bodyMismatch(email, query);
+      if (bodyReason) {
+        rejected.push({ email, reason: bodyReason });
+        continue;
+      }
+    }
+    matches.push(email);
+  }
+
+  const selected = query.nth ? matches[query.nth - 1] : matches[matches.length - 1];
+  for (const skipped of matches.filter(match => match !== selected)) {
+    rejected.push({ email: skipped, reason: query.nth ? `not match #${query.nth}` : 'a newer match exists' });
+  }
+
+  if (!selected) {
+    return { matches: matches.length, rejected };
+  }
+  const full = fullEmails.get(selected.id) || await source.getEmail(selected.id);
+  return { email: full, matches: matches.length, rejected };
+}
+
+/**
+ * Poll an inbox until an email matches the query
+ * @throws Error listing every message seen and why it was rejected
+ */
+export async function pollForEmail(
+  source: EmailSource,
+  inboxId: string,
+  query: EmailQuery,
+  options: { timeout: number; pollInterval: number }
+): Promise<Email> {
+  const deadline = Date.now() + options.timeout;
+  const fullEmails = new Map<string, Email>();
+  let lastScan: InboxScan;
+
+  while (true) {
+    lastScan = await scanInbox(source, inboxId, query, fullEmails);
+    if (lastScan.email) {
+      console.log('📨 Email received:', {
+        id: lastScan.email.id,
+        subject: lastScan.email.subject,
+        from: lastScan.email.from,
+        timestamp: lastScan.email.timestamp
+      });
+      return lastScan.email;
+    }
+    if (Date.now() + options.pollInterval > deadline) break;
+    await new Promise(resolve => setTimeout(resolve, options.pollInterval));
+  }
+
+  const seen = lastScan.rejected
+    .sort((a, b) => a.email.timestamp.getTime() - b.email.timestamp.getTime())
+    .map(({ email, reason }) => `  - "${email.subject}" from ${email.from} at ${email.timestamp.toISOString()}: ${reason}`);
+  throw new Error(
+    `No email matching ${describeQuery(query)} in inbox ${inboxId} within ${options.timeout / 1000}s.\n` +
+    (query.nth && lastScan.matches ? `Only ${lastScan.matches} matching email(s) arrived.\n` : '') +
+    (seen.length ? `Saw ${seen.length} message(s):\n${seen.join('\n')}` : 'The inbox is empty.')
+  );
+}
@@ -0,0 +1,22 @@
+import { TestDataGenerator } from '../TestDataGenerator';
+import { MockEmailProvider } from './MockEmailProvider';
+
+/**
+ * Fake adapter
+ * TestDataGenerator addresses that never receive anything
+ */
+export class FakeEmailProvider extends MockEmailProvider {
+  readonly name = 'Fake';
+
+  constructor(readonly testDataGenerator: TestDataGenerator) {
+    super();
+  }
+
+  protected mockAddress(): string {
+    return 'generated@example.com';
+  }
+
+  async registerInbox(): Promise<string | undefined> {
+    return `generated-inbox-${Date.now()}`;
+  }
+}
@@ -0,0 +1,22 @@
+import { MockEmailProvider } from './MockEmailProvider';
+
+/**
+ * Hardcoded adapter
+ * Uses configured real addresses, but emails are not read back
+ */
+export class HardcodedEmailProvider extends MockEmailProvider {
+  readonly name = 'Hardcoded';
+
+  constructor(private readonly emails: { purchaser: string; recipient?: string }) {
+    super();
+  }
+
+  protected mockAddress(isRecipient: boolean): string | undefined {
+    return isRecipient ? this.emails.recipient : this.emails.purchaser;
+  }
+
+  async registerInbox(email: string, isRecipient: boolean): Promise<string | undefined> {
+    // Only the configured addresses have an inbox
+    return email === this.mockAddress(isRecipient) ? 'hardcoded-inbox-id' : undefined;
+  }
+}
@@ -0,0 +1,87 @@
+import { EMAIL_CONFIG } from '../../data/test.config';
+import { CapturedEmail, LocalSmtpServer } from '../LocalSmtpServer';
+import { Email, EmailProvider, Inbox, OutgoingEmail, WaitForEmailOptions } from './EmailProvider';
+import { pollForEmail } from './EmailQuery';
+import { replyTo, sendOutgoingEmail } from './SmtpSender';
+
+/**
+ * Local SMTP adapter
+ * Reads from the in-process capture server; the address is the inbox ID
+ */
+export class LocalSmtpProvider implements EmailProvider {
+  readonly name = 'Local SMTP';
+  readonly delivers = true;
+  readonly hasContent = true;
+
+  constructor(readonly server: LocalSmtpServer = LocalSmtpServer.shared()) {}
+
+  /**
+   * Host and port the application should deliver to
+   */
+  get endpoint(): { host: string; port: number } {
+    return { host: this.server.host, port: this.server.port };
+  }
+
+  async createInbox(): Promise<Inbox> {
+    await this.server.start();
+    const email = `inbox.${Date.now()}.${Math.random().toString(36).slice(2, 8)}@${EMAIL_CONFIG.LOCAL_SMTP.DOMAIN}`;
+    return { id: email.toLowerCase(), emailAddress: email };
+  }
+
+  async registerInbox(email: string): Promise<string | undefined> {
+    // The capture server accepts any address, so the address is the inbox
+    await this.server.start();
+    return email.toLowerCase();
+  }
+
+  async listEmails(inboxId: string): Promise<Email[]> {
+    await this.server.start();
+    return this.server.getMessages(inboxId).map(message => this.toEmail(message));
+  }
+
+  async waitForEmail(inboxId: string, options: WaitForEmailOptions): Promise<Email> {
+    await this.server.start();
+    return pollForEmail(this, inboxId, options, {
+      timeout: options.timeout || EMAIL_CONFIG.LOCAL_SMTP.DEFAULT_WAIT,
+      pollInterval: EMAIL_CONFIG.LOCAL_SMTP.POLL_INTERVAL
+    });
+  }
+
+  async getEmail(emailId: string): Promise<Email> {
+    return this.toEmail(this.getCaptured(emailId));
+  }
+
+  async getRawEmail(emailId: string): Promise<string> {
+    return this.getCaptured(emailId).raw;
+  }
+
+  async sendEmail(fromInboxId: string, email: OutgoingEmail): Promise<void> {
+    await this.server.start();
+    await sendOutgoingEmail(this.endpoint, fromInboxId, email);
+  }
+
+  async replyToEmail(fromInboxId: string, email: Email, reply: Omit<OutgoingEmail, 'to' | 'subject'>): Promise<void> {
+    await this.sendEmail(fromInboxId, replyTo(email, reply));
+  }
+
+  private getCaptured(emailId: string): CapturedEmail {
+    const message = this.server.getMessage(emailId);
+    if (!message) {
+      throw new Error(`No local email found with ID: ${emailId}`);
+    }
+    return message;
+  }
+
+  private toEmail(message: CapturedEmail): Email {
+    return {
+      id: message.id,
+      subject: message.subject,
+      body: message.text,
+      html: message.html,
+      from: message.from,
+      to: message.to,
+      timestamp: message.receivedAt,
+      headers: message.headers
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import { MailSlurp, EmailPreview } from 'mailslurp-client';
+import { EMAIL_CONFIG } from '../../data/test.config';
+import { InboxLedger } from '../InboxLedger';
+import { Email, EmailProvider, Inbox, OutgoingEmail, WaitForEmailOptions } from './EmailProvider';
+import { pollForEmail } from './EmailQuery';
+
+/**
+ * MailSlurp adapter
+ * Real temporary inboxes created through the MailSlurp API,
+ * each recorded in the inbox ledger so it can be deleted after the run
+ */
+export class MailSlurpProvider implements EmailProvider {
+  readonly name = 'MailSlurp';
+  readonly delivers = true;
+  readonly hasContent = true;
+
+  private readonly client: MailSlurp;
+  private readonly inboxes: Map<string, string> = new Map(); // email -> inboxId
+
+  constructor(apiKey: string, private readonly ledger: InboxLedger = new InboxLedger()) {
+    this.client = new MailSlurp({ apiKey });
+  }
+
+  async createInbox(): Promise<Inbox> {
+    // Tagged so test inboxes can be told apart from permanent ones when purging
+    const inbox = await this.client.createInboxWithOptions({
+      tags: [EMAIL_CONFIG.INBOX_POOL.TAG],
+      expiresIn: EMAIL_CONFIG.INBOX_POOL.EXPIRES_IN || undefined
+    });
+    this.inboxes.set(inbox.emailAddress, inbox.id);
+    this.ledger.created(inbox.id, inbox.emailAddress);
+    return { id: inbox.id, emailAddress: inbox.emailAddress };
+  }
+
+  /**
+   * Permanently delete an inbox and its emails
+   */
+  async deleteInbox(inboxId: string, emailAddress: string = ''): Promise<void> {
+    await this.client.deleteInbox(inboxId);
+    this.ledger.deleted(inboxId, emailAddress);
+  }
+
+  /**
+   * Whether the inbox still exists, e.g. one kept with a pooled account
+   */
+  async hasInbox(inboxId: string): Promise<boolean> {
+    try {
+      await this.client.getInbox(inboxId);
+      return true;
+    } catch (error) {
+      // The client throws the HTTP response on errors
+      if ((error as { status?: number }).status === 404) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all emails in an inbox, keeping the inbox
+   */
+  async emptyInbox(inboxId: string): Promise<void> {
+    await this.client.emptyInbox(inboxId);
+  }
+
+  /**
+   * Every inbox in the account, oldest first
+   * @param tag Only inboxes with this tag
+   */
+  async listInboxes(tag?: string): Promise<Array<Inbox & { createdAt: Date; tags: string[] }>> {
+    const inboxes: Array<Inbox & { createdAt: Date; tags: string[] }> = [];
+    for (let page = 0; ; page++) {
+      const result = await this.client.getAllInboxes(page, 100, undefined, undefined, 'ASC', tag);
+      for (const inbox of result.content || []) {
+        inboxes.push({
+          id: inbox.id,
+          emailAddress: inbox.emailAddress || '',
+          createdAt: new Date(inbox.createdAt),
+          tags: inbox.tags || []
+        });
+      }
+      if (page + 1 >= result.totalPages) break;
+    }
+    return inboxes;
+  }
+
+  async registerInbox(email: string): Promise<string | undefined> {
+    const inboxId = this.inboxes.get(email);
+    if (!inboxId) {
+      throw new Error(`No MailSlurp inbox found for ${email}. Create one first with createMailSlurpInbox()`);
+    }
+    return inboxId;
+  }
+
+  async listEmails(inboxId: string): Promise<Email[]> {
+    const previews = await this.client.getEmails(inboxId);
+    return previews
+      .map(preview => this.fromPreview(preview))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async waitForEmail(inboxId: string, options: WaitForEmailOptions): Promise<Email> {
+    return pollForEmail(this, inboxId, options, {
+      timeout: options.timeout || EMAIL_CONFIG.TIMEOUTS.DEFAULT_WAIT,
+      pollInterval: EMAIL_CONFIG.TIMEOUTS.POLL_INTERVAL
+    });
+  }
+
+  async getEmail(emailId: string): Promise<Email> {
+    const email = await this.client.getEmail(emailId);
+    return {
+      id: email.id,
+      subject: email.subject || '',
+      body: email.body || '',
+      html: email.isHTML && typeof email.body === 'string' ? email.body : undefined,
+      from: email.from || '',
+      to: email.to || [],
+      timestamp: new Date(email.createdAt || Date.now()),
+      headers: email.headers || undefined
+    };
+  }
+
+  async getRawEmail(emailId: string): Promise<string> {
+    return this.client.getRawEmail(emailId);
+  }
+
+  async sendEmail(fromInboxId: string, email: OutgoingEmail): Promise<void> {
+    await this.client.sendEmail(fromInboxId, {
+      to: email.to,
+      subject: email.subject,
+      body: email.body,
+      isHTML: email.isHTML,
+      attachments: await this.uploadAttachments(email),
+      customHeaders: email.headers
+    });
+  }
+
+  async replyToEmail(fromInboxId: string, email: Email, reply: Omit<OutgoingEmail, 'to' | 'subject'>): Promise<void> {
+    await this.sendEmail(fromInboxId, {
+      ...reply,
+      to: [email.from],
+      subject: email.subject  // Keep original subject
+    });
+  }
+
+  /**
+   * MailSlurp sends attachments by ID, so upload them first
+   */
+  private async uploadAttachments(email: OutgoingEmail): Promise<string[] | undefined> {
+    if (!email.attachments?.length) return undefined;
+    const ids: string[] = [];
+    for (const attachment of email.attachments) {
+      const [id] = await this.client.uploadAttachment({
+        base64Contents: attachment.content.toString('base64'),
+        contentType: attachment.contentType,
+        filename: attachment.filename
+      });
+      ids.push(String(id));
+    }
+    return ids;
+  }
+
+  private fromPreview(preview: EmailPreview): Email {
+    return {
+      id: preview.id,
+      subject: preview.subject || '',
+      body: '',
+      from: preview.from || '',
+      to: preview.to || [],
+      timestamp: new Date(preview.createdAt)
+    };
+  }
+}
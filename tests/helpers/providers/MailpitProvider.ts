@@ -0,0 +1,117 @@
+import { EMAIL_CONFIG } from '../../data/test.config';
+import { Email, EmailProvider, Inbox, OutgoingEmail, WaitForEmailOptions } from './EmailProvider';
+import { pollForEmail } from './EmailQuery';
+import { SmtpEndpoint, replyTo, sendOutgoingEmail } from './SmtpSender';
+
+interface MailpitAddress {
+  Name: string;
+  Address: string;
+}
+
+interface MailpitSummary {
+  ID: string;
+  From: MailpitAddress;
+  To: MailpitAddress[];
+  Subject: string;
+  Created: string;
+}
+
+interface MailpitMessage {
+  ID: string;
+  From: MailpitAddress;
+  To: MailpitAddress[];
+  Subject: string;
+  Date: string;
+  Text: string;
+  HTML: string;
+}
+
+/**
+ * Mailpit adapter
+ * Catch-all mail catcher, so any address at DOMAIN is an inbox and the address is the inbox ID.
+ * Reads through the Mailpit HTTP API, sends through its SMTP port.
+ */
+export class MailpitProvider implements EmailProvider {
+  readonly name = 'Mailpit';
+  readonly delivers = true;
+  readonly hasContent = true;
+
+  constructor(
+    private readonly baseUrl: string = EMAIL_CONFIG.MAILPIT.URL,
+    private readonly smtp: SmtpEndpoint = {
+      host: EMAIL_CONFIG.MAILPIT.SMTP_HOST,
+      port: EMAIL_CONFIG.MAILPIT.SMTP_PORT
+    }
+  ) {}
+
+  async createInbox(): Promise<Inbox> {
+    const email = `inbox.${Date.now()}.${Math.random().toString(36).slice(2, 8)}@${EMAIL_CONFIG.MAILPIT.DOMAIN}`;
+    return { id: email.toLowerCase(), emailAddress: email };
+  }
+
+  async registerInbox(email: string): Promise<string | undefined> {
+    return email.toLowerCase();
+  }
+
+  async listEmails(inboxId: string): Promise<Email[]> {
+    const result = await this.request<{ messages: MailpitSummary[] }>(
+      `/api/v1/search?query=${encodeURIComponent(`to:"${inboxId}"`)}`
+    );
+    return result.messages
+      .map(summary => ({
+        id: summary.ID,
+        subject: summary.Subject,
+        body: '',
+        from: summary.From?.Address || '',
+        to: summary.To.map(to => to.Address.toLowerCase()),
+        timestamp: new Date(summary.Created)
+      }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async waitForEmail(inboxId: string, options: WaitForEmailOptions): Promise<Email> {
+    return pollForEmail(this, inboxId, options, {
+      timeout: options.timeout || EMAIL_CONFIG.MAILPIT.DEFAULT_WAIT,
+      pollInterval: EMAIL_CONFIG.MAILPIT.POLL_INTERVAL
+    });
+  }
+
+  async getEmail(emailId: string): Promise<Email> {
+    const message = await this.request<MailpitMessage>(`/api/v1/message/${emailId}`);
+    const headers = await this.request<Record<string, string[]>>(`/api/v1/message/${emailId}/headers`);
+    return {
+      id: message.ID,
+      subject: message.Subject,
+      body: message.Text,
+      html: message.HTML || undefined,
+      from: message.From?.Address || '',
+      to: message.To.map(to => to.Address.toLowerCase()),
+      timestamp: new Date(message.Date),
+      headers: Object.fromEntries(Object.entries(headers).map(([key, values]) => [key.toLowerCase(), values.join(', ')]))
+    };
+  }
+
+  async getRawEmail(emailId: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/v1/message/${emailId}/raw`);
+    if (!response.ok) {
+      throw new Error(`Mailpit request failed: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  }
+
+  async sendEmail(fromInboxId: string, email: OutgoingEmail): Promise<void> {
+    await sendOutgoingEmail(this.smtp, fromInboxId, email);
+  }
+
+  async replyToEmail(fromInboxId: string, email: Email, reply: Omit<OutgoingEmail, 'to' | 'subject'>): Promise<void> {
+    await this.sendEmail(fromInboxId, replyTo(email, reply));
+  }
+
+  private async request<T>(endpoint: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`);
+    if (!response.ok) {
+      throw new Error(`Mailpit request failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json() as Promise<T>;
+  }
+}
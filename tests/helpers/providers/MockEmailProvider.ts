@@ -0,0 +1,55 @@
+import { Email, EmailProvider, Inbox, OutgoingEmail, WaitForEmailOptions } from './EmailProvider';
+
+/**
+ * Base for providers that do not deliver email
+ * Waiting returns canned content so flows can run without a mail backend
+ */
+export abstract class MockEmailProvider implements EmailProvider {
+  abstract readonly name: string;
+  readonly delivers = false;
+  readonly hasContent = false;
+
+  /**
+   * Address the canned emails are addressed to
+   */
+  protected abstract mockAddress(isRecipient: boolean): string | undefined;
+
+  abstract registerInbox(email: string, isRecipient: boolean): Promise<string | undefined>;
+
+  async createInbox(): Promise<Inbox> {
+    throw new Error(`${this.name} mode cannot create inboxes`);
+  }
+
+  async listEmails(): Promise<Email[]> {
+    return [];
+  }
+
+  async waitForEmail(inboxId: string, options: WaitForEmailOptions): Promise<Email> {
+    console.log('📨 Using mock email - returning mock content\n');
+    return {
+      id: `mock-email-${Date.now()}`,
+      subject: typeof options.subject === 'string' ? options.subject : 'Mock Subject',
+      body: 'Mock email body',
+      html: '<div>Mock email body</div>',
+      from: options.from || 'mock@sender.com',
+      to: [this.mockAddress(!!options.isRecipient)!],
+      timestamp: new Date()
+    };
+  }
+
+  async getEmail(emailId: string): Promise<Email> {
+    throw new Error(`Email ${emailId} is not available in ${this.name} mode`);
+  }
+
+  async getRawEmail(emailId: string): Promise<string> {
+    throw new Error(`Raw email ${emailId} is not available in ${this.name} mode`);
+  }
+
+  async sendEmail(fromInboxId: string, email: OutgoingEmail): Promise<void> {
+    console.log(`📨 ${this.name} mode - not sending "${email.subject}" to ${email.to.join(', ')}`);
+  }
+
+  async replyToEmail(fromInboxId: string, email: Email, reply: Omit<OutgoingEmail, 'to' | 'subject'>): Promise<void> {
+    await this.sendEmail(fromInboxId, { ...reply, to: [email.from], subject: email.subject });
+  }
+}
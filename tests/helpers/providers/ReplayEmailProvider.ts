@@ -0,0 +1,68 @@
+import { EmailFixtureStore } from '../EmailFixtureStore';
+import { Email, EmailProvider, Inbox, OutgoingEmail, WaitForEmailOptions } from './EmailProvider';
+import { describeQuery, headerMismatch } from './EmailQuery';
+
+/**
+ * Replay adapter
+ * Serves recorded email fixtures instead of waiting for delivery, so link
+ * extraction and content checks run against real email markup offline
+ */
+export class ReplayEmailProvider implements EmailProvider {
+  readonly name = 'Replay';
+  readonly delivers = false;  // Nothing is sent or received, and there is no raw message
+  readonly hasContent = true;
+  private readonly served: Map<string, Email> = new Map(); // emailId -> email
+
+  constructor(private readonly store: EmailFixtureStore = new EmailFixtureStore()) {}
+
+  async createInbox(): Promise<Inbox> {
+    throw new Error('Replay mode cannot create inboxes');
+  }
+
+  async registerInbox(email: string): Promise<string | undefined> {
+    // Nothing is delivered, so the address is the inbox
+    return email.toLowerCase();
+  }
+
+  async listEmails(inboxId: string): Promise<Email[]> {
+    return Array.from(this.served.values()).filter(email => email.to.includes(inboxId));
+  }
+
+  async waitForEmail(inboxId: string, options: WaitForEmailOptions): Promise<Email> {
+    if (!options.fixture) {
+      throw new Error(`No fixture type given for email matching ${describeQuery(options)}`);
+    }
+
+    const email = await this.store.replay(options.fixture.type, options.fixture.values, inboxId);
+    if (options.receivedAfter && email.timestamp.getTime() <= options.receivedAfter.getTime()) {
+      email.timestamp = new Date(options.receivedAfter.getTime() + 1);
+    }
+    const mismatch = headerMismatch(email, options);
+    if (mismatch) {
+      throw new Error(`Recorded ${options.fixture.type} email "${email.subject}" does not match the query: ${mismatch}`);
+    }
+
+    this.served.set(email.id, email);
+    return email;
+  }
+
+  async getEmail(emailId: string): Promise<Email> {
+    const email = this.served.get(emailId);
+    if (!email) {
+      throw new Error(`No replayed email found with ID: ${emailId}`);
+    }
+    return email;
+  }
+
+  async getRawEmail(emailId: string): Promise<string> {
+    throw new Error(`Raw email ${emailId} is not available in Replay mode`);
+  }
+
+  async sendEmail(fromInboxId: string, email: OutgoingEmail): Promise<void> {
+    console.log(`📨 Replay mode - not sending "${email.subject}" to ${email.to.join(', ')}`);
+  }
+
+  async replyToEmail(fromInboxId: string, email: Email, reply: Omit<OutgoingEmail, 'to' | 'subject'>): Promise<void> {
+    await this.sendEmail(fromInboxId, { ...reply, to: [email.from], subject: email.subject });
+  }
+}
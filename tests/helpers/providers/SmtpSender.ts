@@ -0,0 +1,61 @@
+import { createTransport, SendMailOptions } from 'nodemailer';
+import { Email, OutgoingEmail } from './EmailProvider';
+
+/**
+ * SMTP Sending
+ *
+ * Sends through a plain SMTP port without TLS, as the in-process capture
+ * server and Mailpit offer. Used by the adapters that deliver to a mail
+ * catcher and by the app stand-in.
+ */
+
+export interface SmtpEndpoint {
+  host: string;
+  port: number;
+}
+
+/**
+ * Send one message over its own connection, closed afterwards
+ */
+export async function sendSmtp(endpoint: SmtpEndpoint, message: SendMailOptions): Promise<void> {
+  const transport = createTransport({
+    host: endpoint.host,
+    port: endpoint.port,
+    secure: false,
+    ignoreTLS: true
+  });
+  try {
+    await transport.sendMail(message);
+  } finally {
+    transport.close();
+  }
+}
+
+/**
+ * Send an adapter's outgoing email from an inbox address
+ */
+export async function sendOutgoingEmail(endpoint: SmtpEndpoint, from: string, email: OutgoingEmail): Promise<void> {
+  await sendSmtp(endpoint, {
+    from,
+    to: email.to,
+    subject: email.subject,
+    ...(email.isHTML ? { html: email.body } : { text: email.body }),
+    headers: email.headers,
+    attachments: email.attachments?.map(attachment => ({
+      filename: attachment.filename,
+      content: attachment.content,
+      contentType: attachment.contentType
+    }))
+  });
+}
+
+/**
+ * Reply to an email: addressed to its sender, with its subject kept
+ */
+export function replyTo(email: Email, reply: Omit<OutgoingEmail, 'to' | 'subject'>): OutgoingEmail {
+  return {
+    ...reply,
+    to: [email.from],
+    subject: email.subject
+  };
+}
@@ -1,4 +1,5 @@
 import { Page } from '@playwright/test';
+import { funnelStep } from '../helpers/FunnelTiming';
 import { BasePage, CookieConsentOption } from './BasePage';
 import { CookieConsentHandler } from '../helpers/CookieConsentHandler';
 import { URLS } from '../data/test.config';
@@ -37,37 +38,39 @@ export class HomePage extends BasePage {
   }
 
   async startOrderFlow(cookieOption: CookieConsentOption = CookieConsentOption.ALLOW_ALL) {
-    console.log('\n=== HomePage Flow ===');
-    console.log('1. Going to homepage');
-    await this.goto();
-    console.log('Current URL:', await this.page.url());
+    return funnelStep('home', async () => {
+      console.log('\n=== HomePage Flow ===');
+      console.log('1. Going to homepage');
+      await this.goto();
+      console.log('Current URL:', await this.page.url());
 
-    console.log('\n2. Checking cookie consent');
-    // Wait and retry for cookie banner (10 seconds)
-    console.log('Waiting for cookie banner...');
-    const hasDialog = await this.cookieHandler.waitForVisible({ timeout: 10000 });
-    console.log('Cookie banner appeared:', hasDialog);
+      console.log('\n2. Checking cookie consent');
+      // Wait and retry for cookie banner (10 seconds)
+      console.log('Waiting for cookie banner...');
+      const hasDialog = await this.cookieHandler.waitForVisible({ timeout: 10000 });
+      console.log('Cookie banner appeared:', hasDialog);
     
-    if (hasDialog) {
-      await this.handleCookieConsent(cookieOption);
-      // Double check banner is gone
-      const stillVisible = await this.cookieHandler.isVisible();
-      console.log('Banner still visible:', stillVisible);
-      if (stillVisible) {
-        console.log('Banner still visible, handling again...');
+      if (hasDialog) {
         await this.handleCookieConsent(cookieOption);
+        // Double check banner is gone
+        const stillVisible = await this.cookieHandler.isVisible();
+        console.log('Banner still visible:', stillVisible);
+        if (stillVisible) {
+          console.log('Banner still visible, handling again...');
+          await this.handleCookieConsent(cookieOption);
+        }
       }
-    }
     
-    console.log('\n3. Clicking Order Now');
-    await this.orderNowButton.waitFor({ state: 'visible', timeout: 10000 });
-    await this.orderNowButton.click();
-    console.log('Current URL:', await this.page.url());
+      console.log('\n3. Clicking Order Now');
+      await this.orderNowButton.waitFor({ state: 'visible', timeout: 10000 });
+      await this.orderNowButton.click();
+      console.log('Current URL:', await this.page.url());
     
-    // Wait for navigation to order page with UTM parameters
-    await this.page.waitForURL(URLS.ORDER);
-    await this.page.waitForLoadState('domcontentloaded');
-    console.log('Final URL:', await this.page.url());
+      // Wait for navigation to order page with UTM parameters
+      await this.page.waitForURL(URLS.ORDER);
+      await this.page.waitForLoadState('domcontentloaded');
+      console.log('Final URL:', await this.page.url());
+    });
   }
 
   async startLoginFlow(cookieOption: CookieConsentOption = CookieConsentOption.ALLOW_ALL) {
@@ -1,4 +1,5 @@
 import { Page } from '@playwright/test';
+import { funnelStep } from '../helpers/FunnelTiming';
 import { BasePage, CookieConsentOption } from './BasePage';
 import { CookieConsentHandler } from '../helpers/CookieConsentHandler';
 import { URLS } from '../data/test.config';
@@ -24,50 +25,52 @@ export class OrderPage extends BasePage {
    * @param skipTestMode If true, keeps original URL without test mode. Used for real card tests.
    */
   async selectOrderType(type: OrderType, skipTestMode = false) {
-    console.log('\n=== OrderPage Flow ===');
-    console.log('1. Waiting for page');
+    return funnelStep('order-type', async () => {
+      console.log('\n=== OrderPage Flow ===');
+      console.log('1. Waiting for page');
     
-    // Wait for page to be ready
-    await this.page.waitForLoadState('networkidle');
-    console.log('Current URL:', await this.page.url());
+      // Wait for page to be ready
+      await this.page.waitForLoadState('networkidle');
+      console.log('Current URL:', await this.page.url());
     
-    console.log('\n2. Checking cookie consent');
-    const hasDialog = await this.cookieHandler.isVisible();
-    console.log('Cookie dialog visible:', hasDialog);
+      console.log('\n2. Checking cookie consent');
+      const hasDialog = await this.cookieHandler.isVisible();
+      console.log('Cookie dialog visible:', hasDialog);
     
-    // Handle cookie consent if it appears
-    if (hasDialog) {
-      console.log('Before cookie consent URL:', await this.page.url());
-      await this.cookieHandler.handle(CookieConsentOption.ALLOW_ALL);
-      console.log('After cookie consent URL:', await this.page.url());
-    }
+      // Handle cookie consent if it appears
+      if (hasDialog) {
+        console.log('Before cookie consent URL:', await this.page.url());
+        await this.cookieHandler.handle(CookieConsentOption.ALLOW_ALL);
+        console.log('After cookie consent URL:', await this.page.url());
+      }
     
-    console.log('\n3. Waiting for page title');
-    // Increased timeout for CI
-    await this.pageTitle.waitFor({ state: 'visible', timeout: 30000 });
+      console.log('\n3. Waiting for page title');
+      // Increased timeout for CI
+      await this.pageTitle.waitFor({ state: 'visible', timeout: 30000 });
     
-    console.log('\n4. Selecting order type:', type);
-    // Select order type
-    if (type === 'I will') {
-      await this.iWillOption.click();
-    } else {
-      await this.someoneElseOption.click();
-    }
-    console.log('After selection URL:', await this.page.url());
+      console.log('\n4. Selecting order type:', type);
+      // Select order type
+      if (type === 'I will') {
+        await this.iWillOption.click();
+      } else {
+        await this.someoneElseOption.click();
+      }
+      console.log('After selection URL:', await this.page.url());
 
-    // Click Next and wait for navigation
-    console.log('\n5. Clicking Next');
-    await this.nextButton.click();
+      // Click Next and wait for navigation
+      console.log('\n5. Clicking Next');
+      await this.nextButton.click();
     
-    if (!skipTestMode) {
-      // Add testmode to ORDER URL (which already has utm_campaign=test)
-      const testModeUrl = await this.addTestMode(URLS.ORDER);
-      console.log('Navigating to sandbox URL:', testModeUrl);
-      await this.page.goto(testModeUrl);
-    }
+      if (!skipTestMode) {
+        // Add testmode to ORDER URL (which already has utm_campaign=test)
+        const testModeUrl = await this.addTestMode(URLS.ORDER);
+        console.log('Navigating to sandbox URL:', testModeUrl);
+        await this.page.goto(testModeUrl);
+      }
 
-    await this.page.waitForLoadState('networkidle');
-    console.log('Final URL:', await this.page.url());
+      await this.page.waitForLoadState('networkidle');
+      console.log('Final URL:', await this.page.url());
+    });
   }
 
   async isOrderTypePage(): Promise<boolean> {
@@ -1,5 +1,6 @@
 import { Page } from '@playwright/test';
 import { URLS } from '../data/test.config';
+import { funnelStep } from '../helpers/FunnelTiming';
 import { BasePage } from './BasePage';
 import { PRICES } from '../data/prices.config';
 
@@ -346,6 +347,14 @@ export class PaymentPage extends BasePage {
    * Note: All scenarios use the same button locator, only the button text changes.
    */
   async completePayment(card: StripeCard, isGiftOrder = false) {
+    // Only successful checkouts are timed; declined cards stop at the error message
+    if (card.scenario === 'success') {
+      return funnelStep('payment', () => this.submitPayment(card));
+    }
+    return this.submitPayment(card);
+  }
+
+  private async submitPayment(card: StripeCard) {
     console.log('Starting payment process...');
     
     // Get current total amount
@@ -378,13 +387,15 @@ export class PaymentPage extends BasePage {
   }
 
   async visitDashboard() {
-    console.log('Waiting for dashboard button');
-    await this.visitDashboardButton.waitFor({ state: 'visible' });
-    console.log('Clicking Visit your dashboard button');
-    await Promise.all([
-      this.page.waitForURL(URLS.APP),
-      this.visitDashboardButton.click()
-    ]);
+    return funnelStep('dashboard', async () => {
+      console.log('Waiting for dashboard button');
+      await this.visitDashboardButton.waitFor({ state: 'visible' });
+      console.log('Clicking Visit your dashboard button');
+      await Promise.all([
+        this.page.waitForURL(URLS.APP),
+        this.visitDashboardButton.click()
+      ]);
+    });
   }
 
   async getErrorMessage(): Promise<string | null> {
@@ -426,4 +437,13 @@ export class PaymentPage extends BasePage {
     console.log('Total amount:', text || '0');
     return text || '0';
   }
+
+  /**
+   * Order reference from the success page URL (Stripe checkout session or order ID)
+   * @returns The reference, or undefined when the URL carries none
+   */
+  getOrderId(): string | undefined {
+    const params = new URL(this.page.url()).searchParams;
+    return params.get('order_id') || params.get('session_id') || undefined;
+  }
 }
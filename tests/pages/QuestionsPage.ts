@@ -38,9 +38,18 @@
  */
 
 import { Locator, Page, expect } from '@playwright/test';
-import { URLS } from '../data/test.config';
+import { URLS, EMAIL_CONFIG } from '../data/test.config';
 import { BasePage } from './BasePage';
 import { ScreenshotHelper } from '../helpers/ScreenshotHelper';
+import { normalizeAnswer } from '../helpers/EmailReply';
+
+/**
+ * Stored answer of a question, as shown in the story editor
+ */
+export interface AnswerContent {
+  text: string;
+  images: string[];  // Image URLs in the story
+}
 
 /**
  * Interface for question information
@@ -107,6 +116,7 @@ export class QuestionsPage extends BasePage {
   // Editor elements
   private readonly editorContainer = this.page.locator('#root > div > div.layout-content > div > div.inner > div > div.story-section > div.answer-input-wrapper');
   private readonly answerEditor = this.editorContainer.locator('[contenteditable="true"]').first();
+  private readonly storyImages = this.page.locator('.story-section img');
   
   // Question editing controls
   private readonly questionOptionsButton = (index: number) => this.page.locator(`div:nth-child(${index}) > .story-quick-actions > div:nth-child(3) > .ant-dropdown-trigger > svg`);
@@ -119,6 +129,11 @@ export class QuestionsPage extends BasePage {
   private readonly notStartedTab = this.page.getByRole('tab', { name: /^Not started/ });
   private readonly completedTab = this.page.getByRole('tab', { name: /^Completed/ });
 
+  // Shown when the story was changed in another session meanwhile
+  private readonly conflictWarning = this.page.getByRole('alert')
+    .filter({ hasText: /another (session|device|tab|window)|changed elsewhere|out of date|conflict/i })
+    .first();
+
   // Story elements
   private readonly storyNameLocator = this.page.locator('#root > div > div.layout-content > div > div.page-wrapper-outer.dashboard-actions-outer > div > div > div.action-section > div.header-section > div.book-title > span');
   private readonly storyAuthorLocator = this.page.locator('#root > div > div.layout-content > div > div.page-wrapper-outer.dashboard-actions-outer > div > div > div.action-section > div.header-section > div.book-author');
@@ -499,6 +514,78 @@ export class QuestionsPage extends BasePage {
     return isAnswered;
   }
 
+  /**
+   * Position (1-based) of a question on the dashboard
+   * @throws Error when the question is not listed
+   */
+  async findQuestionIndex(questionText: string): Promise<number> {
+    const questions = await this.getAllQuestionsInfo();
+    const index = questions.findIndex(question => question.text === questionText.trim());
+    if (index < 0) {
+      throw new Error(`Question not found on dashboard: "${questionText}"`);
+    }
+    return index + 1;
+  }
+
+  /**
+   * Reload the dashboard until a question shows as answered
+   * For answers that arrive outside the editor, e.g. email replies
+   * @returns The question's position
+   */
+  async waitForQuestionAnswered(questionText: string, options: {
+    timeout?: number;
+    pollInterval?: number;
+  } = {}): Promise<number> {
+    const timeout = options.timeout ?? EMAIL_CONFIG.REPLIES.INGEST_TIMEOUT;
+    const pollInterval = options.pollInterval ?? EMAIL_CONFIG.REPLIES.POLL_INTERVAL;
+    const deadline = Date.now() + timeout;
+    console.log(`Waiting up to ${timeout / 1000}s for "${questionText}" to be answered`);
+
+    while (true) {
+      const index = await this.findQuestionIndex(questionText);
+      if (await this.verifyQuestionAnswered(index)) {
+        return index;
+      }
+      if (Date.now() + pollInterval > deadline) {
+        throw new Error(`Question "${questionText}" was not answered within ${timeout / 1000}s`);
+      }
+      console.log(`Not answered yet, reloading in ${pollInterval / 1000}s...`);
+      await this.page.waitForTimeout(pollInterval);
+      await this.page.reload();
+      await this.waitForDashboard();
+    }
+  }
+
+  /**
+   * Open an answered question's story and read the stored answer
+   * Returns to the dashboard afterwards
+   */
+  async getAnswerContent(questionText: string): Promise<AnswerContent> {
+    const index = await this.findQuestionIndex(questionText);
+    console.log(`Reading answer of question ${index}`);
+    await Promise.all([
+      this.page.waitForNavigation({ waitUntil: 'networkidle' }),
+      this.editStoryButton(index).click()
+    ]);
+    await this.waitForEditorReady();
+
+    const text = await this.answerEditor.innerText();
+    const images = await this.storyImages.evaluateAll(elements =>
+      elements.map(element => (element as HTMLImageElement).currentSrc || (element as HTMLImageElement).src));
+    console.log('Stored answer:', { text, images });
+
+    await this.goBack();
+    return { text, images };
+  }
+
+  /**
+   * Verify the stored answer of a question, ignoring whitespace differences
+   */
+  async verifyAnswerText(questionText: string, answer: string) {
+    const content = await this.getAnswerContent(questionText);
+    expect(normalizeAnswer(content.text), `Answer of "${questionText}"`).toBe(normalizeAnswer(answer));
+  }
+
   /**
    * Verify schedule dates after deleting a question
    */
@@ -704,6 +791,15 @@ export class QuestionsPage extends BasePage {
     await this.saveAnswer();
   }
 
+  /**
+   * Warning about a change made in another session, if one is showing
+   * @returns The warning text (empty when the alert has none), or null when no warning is showing
+   */
+  async getConflictWarning(): Promise<string | null> {
+    if (!await this.conflictWarning.isVisible()) return null;
+    return (await this.conflictWarning.textContent() ?? '').trim();
+  }
+
   // Question management
   async editQuestion(index: number, newText: string) {
     console.log(`Editing question ${index} to: ${newText}`);
@@ -724,6 +820,59 @@ export class QuestionsPage extends BasePage {
     await this.deleteQuestionOption.click();
   }
 
+  /**
+   * Bring the question list back to a known state: exactly these questions, unanswered,
+   * in this order. Answered, added and duplicate questions are deleted; missing ones
+   * are added again as custom questions
+   * @param questions Question texts, in order
+   * @throws Error when the list still differs afterwards
+   */
+  async resetQuestions(questions: string[]) {
+    console.log(`Resetting question list to ${questions.length} questions`);
+    const current = await this.getAllQuestionsInfo();
+
+    // Delete from the bottom, so the positions above stay valid
+    for (let index = current.length; index >= 1; index--) {
+      const text = current[index - 1].text;
+      const isDuplicate = current.slice(0, index - 1).some(question => question.text === text);
+      if (!questions.includes(text) || isDuplicate || await this.verifyQuestionAnswered(index)) {
+        await this.deleteQuestion(index);
+        await this.page.waitForTimeout(500);
+      }
+    }
+
+    const remaining = (await this.getAllQuestionsInfo()).map(question => question.text);
+    for (const text of questions.filter(text => !remaining.includes(text))) {
+      await this.addCustomQuestion(text);
+      await this.verifyQuestionExists(text);
+    }
+
+    // Move each question into place, top to bottom
+    for (let position = 1; position <= questions.length; position++) {
+      const index = await this.findQuestionIndex(questions[position - 1]);
+      if (index !== position) {
+        await this.dragQuestionToPosition(index, position);
+      }
+    }
+
+    const result = (await this.getAllQuestionsInfo()).map(question => question.text);
+    if (JSON.stringify(result) !== JSON.stringify(questions)) {
+      throw new Error(`Question list not reset. Expected: ${JSON.stringify(questions)}, got: ${JSON.stringify(result)}`);
+    }
+    console.log('Question list reset');
+  }
+
+  /**
+   * Rename the book back, when a test changed its name
+   */
+  async resetStoryName(storyName: string) {
+    if (await this.getStoryName() === storyName) return;
+    console.log('Resetting book name to:', storyName);
+    await this.clickEditBookNameButton();
+    await this.fillBookNameInput(storyName);
+    await this.clickSaveBookNameButton();
+  }
+
   async addPrewrittenQuestion() {
     console.log('Adding a prewritten question');
     await this.addQuestionsButton.click();
@@ -1,7 +1,17 @@
 import { Page, Locator } from '@playwright/test';
+import { funnelStep } from '../helpers/FunnelTiming';
 import { BasePage } from './BasePage';
 import { STATES_REQUIRING_ACKNOWLEDGMENT } from '../data/prices.config';
 
+/**
+ * Limits the "Your details" form enforces
+ */
+export const ORDER_FORM_LIMITS = {
+  MIN_COPIES: 1,
+  MAX_COPIES: 11,
+  COUNTRY_WITH_STATES: 'United States'  // Only this country shows the state dropdown
+};
+
 export interface StoryTellerDetails {
   firstName: string;
   lastName: string;
@@ -40,13 +50,18 @@ export class StoryDetailsPage extends BasePage {
   private readonly subscriptionAcknowledgment = this.page.getByRole('checkbox', { name: 'I acknowledge that this is a' });
   private readonly checkoutButton = this.page.getByRole('button', { name: /Continue to checkout/i });
 
+  // Validation messages under the first and last name fields (either form)
+  private readonly nameFieldErrors = this.page.locator('.ant-form-item-has-error')
+    .filter({ has: this.page.getByRole('textbox', { name: /^(First|Last) name$/ }) })
+    .locator('.ant-form-item-explain-error');
+
   constructor(page: Page) {
     super(page);
   }
 
   private async selectCopies(copies: number) {
-    if (copies < 1 || copies > 11) {
-      throw new Error('Number of copies must be between 1 and 11');
+    if (copies < ORDER_FORM_LIMITS.MIN_COPIES || copies > ORDER_FORM_LIMITS.MAX_COPIES) {
+      throw new Error(`Number of copies must be between ${ORDER_FORM_LIMITS.MIN_COPIES} and ${ORDER_FORM_LIMITS.MAX_COPIES}`);
     }
 
     if (copies > 1) {
@@ -99,7 +114,61 @@ export class StoryDetailsPage extends BasePage {
     console.log('Submitted storyteller details');
   }
 
-  private async selectState(state: string, maxScrolls = 50): Promise<boolean> {
+  /**
+   * Read every option a dropdown offers, walking its virtual list with the keyboard
+   * until the active option wraps around to the first one
+   */
+  private async getDropdownOptions(dropdown: Locator, maxOptions = 400): Promise<string[]> {
+    await dropdown.click();
+    await this.page.waitForTimeout(500);
+    await this.page.keyboard.press('Home');
+
+    const activeOption = this.page.locator('.ant-select-dropdown:not(.ant-select-dropdown-hidden) .ant-select-item-option-active');
+    const options: string[] = [];
+    for (let i = 0; i < maxOptions; i++) {
+      const option = (await activeOption.getAttribute('title')) ?? (await activeOption.textContent()) ?? '';
+      if (options.includes(option)) break;
+      options.push(option);
+      await this.page.keyboard.press('ArrowDown');
+    }
+
+    await this.page.keyboard.press('Escape');
+    console.log(`Dropdown offers ${options.length} options`);
+    return options;
+  }
+
+  /**
+   * Every country the "Your details" form offers
+   */
+  async getCountryOptions(): Promise<string[]> {
+    await this.page.waitForLoadState('networkidle');
+    return this.getDropdownOptions(this.countryDropdown.first());
+  }
+
+  /**
+   * Every state offered once a country with states is selected
+   */
+  async getStateOptions(): Promise<string[]> {
+    await this.stateDropdown.waitFor({ state: 'visible', timeout: 10000 });
+    return this.getDropdownOptions(this.stateDropdown);
+  }
+
+  async selectCountry(country: string) {
+    console.log('Selecting country:', country);
+    await this.countryDropdown.first().click();
+    await this.page.keyboard.type(country);
+    await this.page.keyboard.press('Enter');
+  }
+
+  /**
+   * Whether the recurring subscription acknowledgment checkbox is shown for the selected state
+   */
+  async isSubscriptionAcknowledgmentVisible(): Promise<boolean> {
+    await this.page.waitForTimeout(500);  // Checkbox appears after state selection
+    return this.subscriptionAcknowledgment.isVisible();
+  }
+
+  async selectState(state: string, maxScrolls = 50): Promise<boolean> {
     console.log(`Selecting state: ${state}`);
     await this.stateDropdown.click();
     await this.page.waitForTimeout(500);
@@ -124,6 +193,16 @@ export class StoryDetailsPage extends BasePage {
   }
 
   async fillGiftGiverDetails(details: GiftGiverDetails, isGiftOrder = false) {
+    return funnelStep('details', async () => {
+      await this.enterGiftGiverDetails(details, isGiftOrder);
+      await this.continueToCheckout();
+    });
+  }
+
+  /**
+   * Fill the "Your details" form without submitting it
+   */
+  async enterGiftGiverDetails(details: GiftGiverDetails, isGiftOrder = false) {
     // Wait for form to be ready
     await this.page.waitForLoadState('networkidle');
 
@@ -138,22 +217,19 @@ export class StoryDetailsPage extends BasePage {
     await this.giverEmail.fill(details.email);
 
     // Select country
-    console.log('Selecting country:', details.country);
-    await this.countryDropdown.first().click();
-    await this.page.keyboard.type(details.country);
-    await this.page.keyboard.press('Enter');
+    await this.selectCountry(details.country);
 
     // Handle state selection if US
-    if (details.country === 'United States') {
+    if (details.country === ORDER_FORM_LIMITS.COUNTRY_WITH_STATES) {
       console.log('US selected, checking state field visibility');
       const isStateVisible = await this.stateDropdown.isVisible();
-      
+    
       if (isStateVisible) {
         console.log('State field is visible');
         if (details.state) {
           console.log(`Attempting to select state: ${details.state}`);
           const stateSelected = await this.selectState(details.state);
-          
+        
           if (stateSelected) {
             console.log(`State ${details.state} selected successfully`);
             // Check if state requires subscription acknowledgment (only for self orders)
@@ -171,11 +247,32 @@ export class StoryDetailsPage extends BasePage {
         console.log('State field is not visible, continuing without state selection');
       }
     }
+  }
 
+  async continueToCheckout() {
     await this.checkoutButton.click();
     console.log('Submitted gift giver details');
   }
 
+  /**
+   * Values currently in the "Your details" name and email fields
+   */
+  async getGiftGiverValues(): Promise<{ firstName: string; lastName: string; email: string }> {
+    return {
+      firstName: await this.giverFirstName.inputValue(),
+      lastName: await this.giverLastName.inputValue(),
+      email: await this.giverEmail.inputValue()
+    };
+  }
+
+  /**
+   * Validation errors the form shows for a first or last name field
+   * @returns The messages, empty when the names were accepted
+   */
+  async getNameFieldErrors(): Promise<string[]> {
+    return (await this.nameFieldErrors.allInnerTexts()).map(text => text.trim()).filter(Boolean);
+  }
+
   async isStoryTellerPage(): Promise<boolean> {
     try {
       await this.page.waitForLoadState('networkidle');
@@ -0,0 +1,89 @@
+import path from 'path';
+import { chromium } from '@playwright/test';
+import { AccountPool, AccountOrderType } from '../helpers/AccountPool';
+import { EmailHandler, EmailMode } from '../helpers/EmailHandler';
+import { ACCOUNT_POOL } from '../data/test.config';
+
+/**
+ * Account pool maintenance
+ *
+ * Usage:
+ *   npm run accounts:list -- [--all]                            Pooled accounts; --all includes retired ones
+ *   npm run accounts:refill -- [--count N] [--type self|gift]   Buy accounts until N are idle
+ *
+ * --count defaults to ACCOUNT_POOL_MIN_IDLE. With MAILSLURP_API_KEY set accounts
+ * get MailSlurp inboxes, which gift accounts (activated from the gift email) and
+ * magic-link login sessions need.
+ */
+
+require('dotenv').config({ path: path.join(__dirname, '..', '..', '.env') });
+
+function optionValue(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+async function list(argv: string[]): Promise<void> {
+  const pool = new AccountPool();
+  const accounts = pool.list().filter(account => argv.includes('--all') || !account.retired);
+  console.log(`👤 ${accounts.length} account(s), ${pool.idle().length} idle (${pool.filePath})`);
+  for (const account of accounts) {
+    const status = account.retired ? `retired: ${account.retired.reason}` :
+      account.reserved ? `reserved for ${account.reserved}` :
+      account.checkedOut ? `checked out by "${account.checkedOut.test}" since ${account.checkedOut.at}` :
+      'idle';
+    console.log(`  ${account.email}  ${account.orderType}  ${account.uses} use(s)  ${status}`);
+  }
+}
+
+async function refill(argv: string[]): Promise<void> {
+  const count = Number(optionValue(argv, '--count') ?? ACCOUNT_POOL.MIN_IDLE);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid --count value: ${optionValue(argv, '--count')}`);
+  }
+  const orderType = (optionValue(argv, '--type') || 'self') as AccountOrderType;
+  if (orderType !== 'self' && orderType !== 'gift') {
+    throw new Error(`Invalid --type value: ${orderType}. Use "self" or "gift"`);
+  }
+
+  const pool = new AccountPool();
+  const missing = count - pool.idle().filter(account => account.orderType === orderType).length;
+  if (missing <= 0) {
+    console.log(`👤 ${count} idle ${orderType} account(s) already pooled`);
+    return;
+  }
+
+  const browser = await chromium.launch();
+  try {
+    if (orderType === 'gift' && !process.env.MAILSLURP_API_KEY) {
+      throw new Error('MAILSLURP_API_KEY is required to create gift accounts');
+    }
+    // With a MailSlurp key accounts get real inboxes, so they can also log in by magic link (see AuthSession)
+    const emailHandler = process.env.MAILSLURP_API_KEY ?
+      new EmailHandler({ mode: EmailMode.MAILSLURP, mailslurpApiKey: process.env.MAILSLURP_API_KEY }, browser) :
+      undefined;
+    for (let i = 1; i <= missing; i++) {
+      console.log(`👤 Creating ${orderType} account ${i} of ${missing}`);
+      await pool.add(await AccountPool.create(browser, { orderType, emailHandler }));
+    }
+  } finally {
+    await browser.close();
+  }
+}
+
+async function main(): Promise<void> {
+  const [command, ...argv] = process.argv.slice(2);
+  switch (command) {
+    case 'list':
+      return list(argv);
+    case 'refill':
+      return refill(argv);
+    default:
+      throw new Error(`Unknown command: ${command}. Use "list" or "refill"`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
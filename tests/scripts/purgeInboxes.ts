@@ -0,0 +1,74 @@
+import path from 'path';
+import { EMAIL_CONFIG } from '../data/test.config';
+import { InboxLedger } from '../helpers/InboxLedger';
+import { AccountPool } from '../helpers/AccountPool';
+import { MailSlurpProvider } from '../helpers/providers/MailSlurpProvider';
+
+/**
+ * Purge stale MailSlurp inboxes
+ *
+ * Deletes test inboxes (tagged INBOX_POOL.TAG) older than N days, e.g. left
+ * behind by cancelled CI runs. The refunds inbox and inboxes of active pooled
+ * accounts (see AccountPool) are never deleted.
+ *
+ * Usage:
+ *   npm run inboxes:purge -- [--days 3] [--dry-run] [--include-untagged]
+ *
+ * --include-untagged also deletes inboxes created before tagging was added
+ */
+
+require('dotenv').config({ path: path.join(__dirname, '..', '..', '.env') });
+
+function parseArgs(argv: string[]): { days: number; dryRun: boolean; includeUntagged: boolean } {
+  const daysIndex = argv.indexOf('--days');
+  const days = daysIndex >= 0 ? Number(argv[daysIndex + 1]) : EMAIL_CONFIG.INBOX_POOL.STALE_DAYS;
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`Invalid --days value: ${argv[daysIndex + 1]}`);
+  }
+  return {
+    days,
+    dryRun: argv.includes('--dry-run'),
+    includeUntagged: argv.includes('--include-untagged')
+  };
+}
+
+async function purgeInboxes(): Promise<void> {
+  const { days, dryRun, includeUntagged } = parseArgs(process.argv.slice(2));
+  if (!process.env.MAILSLURP_API_KEY) {
+    throw new Error('MAILSLURP_API_KEY is required to purge inboxes');
+  }
+
+  const ledger = new InboxLedger();
+  const provider = new MailSlurpProvider(process.env.MAILSLURP_API_KEY, ledger);
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  const pooledIds = new AccountPool().list()
+    .filter(account => !account.retired && account.inboxId)
+    .map(account => account.inboxId!);
+  const protectedIds = new Set([EMAIL_CONFIG.REFUNDS.MAILSLURP.inboxId, ...pooledIds]);
+
+  const inboxes = await provider.listInboxes(includeUntagged ? undefined : EMAIL_CONFIG.INBOX_POOL.TAG);
+  const stale = inboxes.filter(inbox => inbox.createdAt.getTime() < cutoff && !protectedIds.has(inbox.id));
+  console.log(`📬 ${inboxes.length} inbox(es) found, ${stale.length} older than ${days} day(s)${dryRun ? ' (dry run)' : ''}`);
+
+  let deleted = 0;
+  for (const inbox of stale) {
+    const tests = ledger.inboxes().find(record => record.inboxId === inbox.id)?.tests || [];
+    console.log(`  ${inbox.createdAt.toISOString()}  ${inbox.emailAddress}${tests.length ? `  (${tests.join('; ')})` : ''}`);
+    if (dryRun) continue;
+    try {
+      await provider.deleteInbox(inbox.id, inbox.emailAddress);
+      deleted++;
+    } catch (error) {
+      console.warn(`⚠️ Failed to delete inbox ${inbox.emailAddress}:`, error);
+    }
+  }
+
+  if (!dryRun) {
+    console.log(`🗑️ Deleted ${deleted} of ${stale.length} stale inbox(es)`);
+  }
+}
+
+purgeInboxes().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+import path from 'path';
+import { RefundLedger } from '../helpers/RefundLedger';
+import { EmailHandler, EmailMode } from '../helpers/EmailHandler';
+
+/**
+ * Refund reconciliation
+ *
+ * Usage:
+ *   npm run refunds:report -- [--email] [--json]   List real card charges not yet refunded
+ *   npm run refunds:mark -- <chargeId|orderId> [--note "refunded in Stripe"]
+ *
+ * --email also sends the report to the backoffice through MailSlurp (needs MAILSLURP_API_KEY)
+ */
+
+require('dotenv').config({ path: path.join(__dirname, '..', '..', '.env') });
+
+function optionValue(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+async function report(argv: string[]): Promise<void> {
+  const ledger = new RefundLedger();
+  const refundReport = ledger.report();
+
+  console.log(argv.includes('--json') ?
+    JSON.stringify(refundReport, null, 2) :
+    `${RefundLedger.formatReport(refundReport)}\n\nLedger: ${ledger.filePath} (CSV: ${ledger.csvPath})`);
+
+  if (argv.includes('--email')) {
+    if (!process.env.MAILSLURP_API_KEY) {
+      throw new Error('MAILSLURP_API_KEY is required to email the refund report');
+    }
+    const emailHandler = new EmailHandler({
+      mode: EmailMode.MAILSLURP,
+      mailslurpApiKey: process.env.MAILSLURP_API_KEY
+    });
+    await emailHandler.sendRefundReport(refundReport);
+  }
+}
+
+async function mark(argv: string[]): Promise<void> {
+  const id = argv[0];
+  if (!id || id.startsWith('--')) {
+    throw new Error('Usage: npm run refunds:mark -- <chargeId|orderId> [--note "..."]');
+  }
+  new RefundLedger().markRefunded(id, optionValue(argv, '--note'));
+}
+
+async function main(): Promise<void> {
+  const [command, ...argv] = process.argv.slice(2);
+  switch (command) {
+    case 'report':
+      return report(argv);
+    case 'mark':
+      return mark(argv);
+    default:
+      throw new Error(`Unknown command: ${command}. Use "report" or "mark"`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
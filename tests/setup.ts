@@ -1,5 +1,6 @@
 import path from 'path';
 import fs from 'fs';
+import type { FullConfig, FullProject } from '@playwright/test';
 
 // Load environment variables from .env file
 console.log('\n=== Loading Environment ===');
@@ -13,6 +14,10 @@ console.log('Loaded MAILSLURP_API_KEY:', process.env.MAILSLURP_API_KEY ?
   'undefined');
 console.log('=========================\n');
 
+// One run ID for the runner and all workers (inherited through the environment)
+const { getRunId } = require('./helpers/TestRun');
+console.log('Test run ID:', getRunId());
+
 // Set TEST_FILE from command line argument if provided
 const testFileArg = process.argv.find(arg => arg.endsWith('.spec.ts'));
 if (testFileArg) {
@@ -28,13 +33,13 @@ process.env.SCREENSHOT_DIR = process.env.SCREENSHOT_DIR || 'test-results/screens
 if (!process.env.EMAIL_MODE) {
   throw new Error(
     'EMAIL_MODE is not set. Please add EMAIL_MODE to your .env file.\n' +
-    'Valid values are: mailslurp, fake, hardcoded\n' +
+    'Valid values are: mailslurp, mailpit, local_smtp, fake, hardcoded\n' +
     'Example: EMAIL_MODE=fake'
   );
 }
 
 // Validate email mode configuration
-const validEmailModes = ['mailslurp', 'fake', 'hardcoded'];
+const validEmailModes = ['mailslurp', 'mailpit', 'local_smtp', 'fake', 'hardcoded'];
 if (!validEmailModes.includes(process.env.EMAIL_MODE)) {
   throw new Error(`Invalid EMAIL_MODE: ${process.env.EMAIL_MODE}. Must be one of: ${validEmailModes.join(', ')}`);
 }
@@ -53,11 +58,29 @@ if (!fs.existsSync(screenshotDir)) {
   fs.mkdirSync(screenshotDir, { recursive: true });
 }
 
+/**
+ * Projects picked with --project on the command line; all projects when none are
+ */
+function selectedProjects(config: FullConfig): FullProject[] {
+  const names = process.argv.flatMap((arg, i) =>
+    arg === '--project' ? [process.argv[i + 1]] :
+    arg.startsWith('--project=') ? [arg.slice('--project='.length)] :
+    []);
+  return names.length ? config.projects.filter(project => names.includes(project.name)) : config.projects;
+}
+
 // Global setup function
-async function globalSetup() {
+async function globalSetup(config: FullConfig) {
   // Any additional setup can be added here
   console.log('Test Environment:', process.env.TEST_ENV);
   console.log('Using Static Emails:', process.env.USE_STATIC_EMAILS === 'true');
+
+  // Logged in session per project for specs using tests/fixtures/auth.ts (they also log in on their own)
+  const { AUTH } = require('./data/test.config');
+  if (AUTH.SETUP) {
+    const { AuthSession } = require('./helpers/AuthSession');
+    await AuthSession.setup(selectedProjects(config));
+  }
 }
 
 export default globalSetup;
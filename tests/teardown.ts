@@ -0,0 +1,34 @@
+import { InboxLedger } from './helpers/InboxLedger';
+import { MailSlurpProvider } from './helpers/providers/MailSlurpProvider';
+
+/**
+ * Global teardown
+ * Deletes MailSlurp inboxes created during this run that are still open,
+ * e.g. after a worker crashed. Set KEEP_MAILSLURP_INBOXES=true to keep them for debugging.
+ */
+async function globalTeardown() {
+  const ledger = new InboxLedger();
+  const open = ledger.openInboxes();
+  if (!open.length) return;
+
+  if (process.env.KEEP_MAILSLURP_INBOXES === 'true') {
+    console.log(`📬 Keeping ${open.length} MailSlurp inbox(es) from this run (KEEP_MAILSLURP_INBOXES=true)`);
+    return;
+  }
+  if (!process.env.MAILSLURP_API_KEY) {
+    console.warn(`⚠️ ${open.length} MailSlurp inbox(es) left open, but MAILSLURP_API_KEY is not set`);
+    return;
+  }
+
+  console.log(`\n🗑️ Deleting ${open.length} MailSlurp inbox(es) created during this run`);
+  const provider = new MailSlurpProvider(process.env.MAILSLURP_API_KEY, ledger);
+  for (const record of open) {
+    try {
+      await provider.deleteInbox(record.inboxId, record.emailAddress);
+    } catch (error) {
+      console.warn(`⚠️ Failed to delete inbox ${record.emailAddress}:`, error);
+    }
+  }
+}
+
+export default globalTeardown;
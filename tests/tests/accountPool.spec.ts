@@ -0,0 +1,94 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import { AccountPool, PooledAccount } from '../helpers/AccountPool';
+import { withFileLock } from '../helpers/TestRun';
+
+/**
+ * Account Pool Tests
+ *
+ * The pool file behind the `account` fixture (see AccountPool), on a pool of
+ * its own per test: concurrent checkouts, check in and retirement, accounts
+ * reserved for logged in sessions, and the lock file that serializes pool
+ * changes. Runs without a live app.
+ */
+test.describe('Account Pool', {
+  tag: ['@Local']
+}, () => {
+  test('check pooled accounts out exclusively, reserve and retire them', async ({}, testInfo) => {
+    const pool = new AccountPool(testInfo.outputPath('account-pool.json'));
+    const account = (email: string, createdAt: string): PooledAccount => ({
+      email, orderType: 'self', firstName: 'Jane', lastName: 'Doe', storyName: 'My Stories',
+      questions: ['What is your earliest childhood memory?'], storageState: testInfo.outputPath(`${email}.json`),
+      createdAt, uses: 0
+    });
+    await pool.add(account('older@example.com', '2025-01-01T00:00:00.000Z'));
+    await pool.add(account('newer@example.com', '2025-01-02T00:00:00.000Z'));
+
+    // Concurrent checkouts never get the same account, least recently used first
+    const [first, second, third] = await Promise.all(['a', 'b', 'c'].map(test => pool.checkout(test)));
+    expect(first?.email).toBe('older@example.com');
+    expect(second?.email).toBe('newer@example.com');
+    expect(third).toBeUndefined();
+
+    await pool.checkin('older@example.com');
+    await pool.checkin('newer@example.com', 'session expired');
+    expect(pool.idle().map(idle => idle.email)).toEqual(['older@example.com']);
+    expect(pool.list().find(pooled => pooled.email === 'newer@example.com')?.retired?.reason).toBe('session expired');
+    expect((await pool.checkout('d'))?.uses).toBe(1);
+
+    // Reserved accounts are shared and never checked out
+    await pool.checkin('older@example.com');
+    expect((await pool.reserve('auth'))?.email).toBe('older@example.com');
+    expect((await pool.reserve('auth'))?.email).toBe('older@example.com');
+    expect(await pool.checkout('e')).toBeUndefined();
+  });
+
+  test('release a reserved account whose login failed', async ({}, testInfo) => {
+    const pool = new AccountPool(testInfo.outputPath('account-pool.json'));
+    for (const email of ['first@example.com', 'second@example.com']) {
+      await pool.add({
+        email, orderType: 'self', firstName: 'Jane', lastName: 'Doe', storyName: 'My Stories',
+        questions: [], storageState: testInfo.outputPath(`${email}.json`), createdAt: '2025-01-01T00:00:00.000Z', uses: 0
+      });
+    }
+
+    expect((await pool.reserve('auth'))?.email).toBe('first@example.com');
+    await pool.release('first@example.com', 'login failed: login link rejected');
+    const released = pool.list().find(pooled => pooled.email === 'first@example.com');
+    expect(released?.reserved).toBeUndefined();
+    expect(released?.retired?.reason).toBe('login failed: login link rejected');
+    expect((await pool.reserve('auth'))?.email).toBe('second@example.com');
+
+    // A transient failure releases the account without retiring it
+    await pool.release('second@example.com');
+    expect(pool.list().find(pooled => pooled.email === 'second@example.com')?.retired).toBeUndefined();
+    expect((await pool.reserve('auth'))?.email).toBe('second@example.com');
+  });
+
+  test('wait for the lock while other processes hold it in turn', async ({}, testInfo) => {
+    const lockPath = testInfo.outputPath('pool.lock');
+    fs.mkdirSync(testInfo.outputDir, { recursive: true });
+    const events: string[] = [];
+
+    // Held longer than the timeout in total, but by two holders one after another
+    fs.writeFileSync(lockPath, 'first');
+    setTimeout(() => {
+      fs.rmSync(lockPath);
+      fs.writeFileSync(lockPath, 'second');
+      events.push('second took over');
+    }, 200);
+    setTimeout(() => {
+      fs.rmSync(lockPath);
+      events.push('second released');
+    }, 400);
+    await withFileLock(lockPath, () => { events.push('locked'); }, 300);
+    expect(events).toEqual(['second took over', 'second released', 'locked']);
+    expect(fs.existsSync(lockPath)).toBeFalsy();
+
+    // A lock older than the timeout was left by a crashed process
+    fs.writeFileSync(lockPath, 'crashed');
+    const takenAt = new Date(Date.now() - 1000);
+    fs.utimesSync(lockPath, takenAt, takenAt);
+    expect(await withFileLock(lockPath, () => 'taken over', 300)).toBe('taken over');
+  });
+});
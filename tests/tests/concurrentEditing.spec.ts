@@ -0,0 +1,145 @@
+import { expect } from '@playwright/test';
+import { test } from '../fixtures/accountPool';
+import { ConcurrentSessions } from '../helpers/ConcurrentSessions';
+import { normalizeAnswer } from '../helpers/EmailReply';
+import { QuestionInfo } from '../pages/QuestionsPage';
+import { CONCURRENT_SESSIONS } from '../data/test.config';
+
+/**
+ * Concurrent Editing Tests
+ *
+ * One pooled account logged in on a desktop and an iPhone at the same time
+ * (see ConcurrentSessions), both changing the same story:
+ * - Editing the same answer: the last save wins, or a conflict warning is shown
+ * - Reordering questions in both sessions
+ * - Deleting a question while the other session moves it, or deletes it too
+ *
+ * After each change both dashboards are refreshed and must show the same
+ * questions, in the same order, with the same dates. Both devices are already
+ * covered by the sessions, so the suite runs in CONCURRENT_SESSIONS.PROJECT only.
+ */
+test.describe('Concurrent Editing', {
+  tag: ['@Full', '@Questions', '@Concurrent']
+}, () => {
+  let sessions: ConcurrentSessions;
+
+  test.beforeEach(({}, testInfo) => {
+    test.skip(testInfo.project.name !== CONCURRENT_SESSIONS.PROJECT, `Runs in the ${CONCURRENT_SESSIONS.PROJECT} project only`);
+  });
+
+  test.beforeEach(async ({ browser, account }) => {
+    sessions = await ConcurrentSessions.open(browser, account.storageState);
+  });
+
+  test.afterEach(async () => {
+    await sessions?.close();
+  });
+
+  /**
+   * Both sessions open the first question and type a different answer.
+   * The desktop saves first, so the iPhone's save is the last write.
+   */
+  test('edit the same answer from two sessions', async () => {
+    const { desktop, iphone } = sessions;
+    const [question] = await desktop.questionsPage.getAllQuestionsInfo();
+    const answers = {
+      desktop: `Written on the desktop ${Date.now()}`,
+      iphone: `Written on the iPhone ${Date.now()}`
+    };
+
+    await sessions.together(session => session.questionsPage.startWriting(1));
+    await sessions.together(session => session.questionsPage.writeAnswer(answers[session.name]));
+    await desktop.questionsPage.saveAnswer();
+    await iphone.questionsPage.saveAnswer();
+    const warnings = await sessions.conflictWarnings();
+    console.log('Conflict warnings:', warnings);
+
+    const lists = await sessions.refresh();
+    expect(lists.iphone, 'Same questions in both sessions').toEqual(lists.desktop);
+
+    const stored = await sessions.together(session => session.questionsPage.getAnswerContent(question.text));
+    expect(normalizeAnswer(stored.iphone.text), 'Same answer in both sessions').toBe(normalizeAnswer(stored.desktop.text));
+    if (warnings.iphone !== null) {
+      // The later save was warned about: either answer may be kept, but not a mix of both
+      expect([answers.desktop, answers.iphone]).toContain(normalizeAnswer(stored.desktop.text));
+    } else {
+      expect(normalizeAnswer(stored.desktop.text), 'Last save wins').toBe(answers.iphone);
+    }
+  });
+
+  /**
+   * The desktop moves question 1 to position 3 while the iPhone moves question 2
+   * to position 4, each from the order it loaded
+   */
+  test('reorder questions from two sessions', async () => {
+    const initial = await sessions.desktop.questionsPage.getAllQuestionsInfo();
+    test.skip(initial.length < 4, 'Needs at least 4 questions');
+    const texts = initial.map(question => question.text);
+
+    await sessions.together(session => session.name === 'desktop'
+      ? session.questionsPage.dragQuestionToPosition(1, 3)
+      : session.questionsPage.dragQuestionToPosition(2, 4));
+    const warnings = await sessions.conflictWarnings();
+    console.log('Conflict warnings:', warnings);
+
+    const lists = await sessions.refresh();
+    expectSameQuestions(lists.desktop, lists.iphone);
+    expect([...titles(lists.desktop)].sort(), 'No question lost or duplicated').toEqual([...texts].sort());
+    expect(lists.desktop.map(question => question.date), 'Dates stay with positions').toEqual(initial.map(question => question.date));
+
+    if (warnings.desktop === null && warnings.iphone === null) {
+      // Either move is the last write, on its own or applied after the other one
+      const desktopOrder = move(texts, 1, 3);
+      const iphoneOrder = move(texts, 2, 4);
+      expect([desktopOrder, iphoneOrder, move(desktopOrder, 2, 4), move(iphoneOrder, 1, 3)],
+        `Order ${titles(lists.desktop).join(' | ')}`).toContainEqual(titles(lists.desktop));
+    }
+  });
+
+  test('delete a question while the other session moves it', async () => {
+    const initial = await sessions.desktop.questionsPage.getAllQuestionsInfo();
+    test.skip(initial.length < 4, 'Needs at least 4 questions');
+    const deleted = initial[1].text;
+
+    await sessions.together(session => session.name === 'desktop'
+      ? session.questionsPage.deleteQuestion(2)
+      : session.questionsPage.dragQuestionToPosition(2, 4));
+
+    const lists = await sessions.refresh();
+    expectSameQuestions(lists.desktop, lists.iphone);
+    expect(titles(lists.desktop), 'Moving a deleted question does not bring it back').not.toContain(deleted);
+    expect([...titles(lists.desktop)].sort(), 'Only the deleted question is gone')
+      .toEqual(initial.map(question => question.text).filter(text => text !== deleted).sort());
+  });
+
+  test('delete the same question from two sessions', async () => {
+    const initial = await sessions.desktop.questionsPage.getAllQuestionsInfo();
+    test.skip(initial.length < 2, 'Needs at least 2 questions');
+    const deleted = initial[1].text;
+
+    await sessions.together(session => session.questionsPage.deleteQuestion(2));
+
+    const lists = await sessions.refresh();
+    expectSameQuestions(lists.desktop, lists.iphone);
+    expect(titles(lists.desktop), 'The second delete removes nothing else')
+      .toEqual(initial.map(question => question.text).filter(text => text !== deleted));
+  });
+});
+
+function titles(questions: QuestionInfo[]): string[] {
+  return questions.map(question => question.text);
+}
+
+/**
+ * Order after moving the question at a 1-based position to another
+ */
+function move(texts: string[], from: number, to: number): string[] {
+  const order = [...texts];
+  const [moved] = order.splice(from - 1, 1);
+  order.splice(to - 1, 0, moved);
+  return order;
+}
+
+function expectSameQuestions(desktop: QuestionInfo[], iphone: QuestionInfo[]) {
+  expect(iphone, 'Same questions, order and dates in both sessions after a refresh').toEqual(desktop);
+}
@@ -1,4 +1,5 @@
-import { test as base, expect, TestInfo } from '@playwright/test';
+import { expect, TestInfo } from '@playwright/test';
+import { test as base } from '../fixtures/inboxPool';
 import { HomePage } from '../pages/HomePage';
 import { SettingsPage } from '../pages/SettingsPage';
 import { OrderPage } from '../pages/OrderPage';
@@ -11,19 +12,29 @@ import { CookieConsentOption } from '../pages/BasePage';
 import { EmailHandler, Email, EmailMode } from '../helpers/EmailHandler';
 import { TestFlowHelper } from '../helpers/TestFlowHelper';
 import { URLS, EMAIL_CONFIG } from '../data/test.config';
+import { ReplyFormat } from '../helpers/EmailReply';
+import { createTestImage } from '../helpers/ImageComparisonUtil';
+import { QuestionSchedule } from '../helpers/QuestionSchedule';
 
 // Extend base test with EmailHandler
 const test = base.extend<{ emailHandler: EmailHandler }>({
-  emailHandler: async ({ browser }, use) => {
+  emailHandler: async ({ browser, inboxPool }, use, testInfo) => {
     const mode = process.env.EMAIL_MODE === 'hardcoded' ? 
       EmailMode.HARDCODED : 
-      process.env.EMAIL_MODE === 'mailslurp' ? 
-        EmailMode.MAILSLURP : 
-        EmailMode.MAILSLURP; // Force MAILSLURP for fake mode in email tests
+      process.env.EMAIL_MODE === 'local_smtp' ? 
+        EmailMode.LOCAL_SMTP : 
+        process.env.EMAIL_MODE === 'mailpit' ? 
+          EmailMode.MAILPIT : 
+          process.env.EMAIL_MODE === 'fake' && EMAIL_CONFIG.FIXTURES.MODE === 'replay' ? 
+            EmailMode.FAKE :  // Serve recorded email fixtures
+            EmailMode.MAILSLURP; // Force MAILSLURP for fake mode in email tests
     
+    const inboxLease = mode === EmailMode.MAILSLURP ? inboxPool?.lease(testInfo.titlePath.join(' › ')) : undefined;
     const handler = new EmailHandler({
       mode,
       mailslurpApiKey: process.env.MAILSLURP_API_KEY,
+      inboxPool: inboxLease,
+      testDataGenerator: mode === EmailMode.FAKE ? new TestDataGenerator() : undefined,
       hardcodedEmails: process.env.EMAIL_MODE === 'hardcoded' ? {
         purchaser: process.env.HARDCODED_EMAIL!,
         recipient: process.env.HARDCODED_RECIPIENT_EMAIL
@@ -31,6 +42,8 @@ const test = base.extend<{ emailHandler: EmailHandler }>({
       isSandboxMode: process.env.STRIPE_SANDBOX === 'true'
     }, browser);
     await use(handler);
+    await handler.attachLintReports(testInfo);
+    await inboxLease?.release();
   }
 });
 
@@ -39,8 +52,8 @@ test.describe('Self Purchase Emails', {
 }, () => {
   let testData: TestDataGenerator;
 
-  test.beforeEach(() => {
-    testData = new TestDataGenerator();
+  test.beforeEach(({}, testInfo) => {
+    testData = new TestDataGenerator(testInfo);
   });
 
   test('verify welcome email', {
@@ -51,12 +64,19 @@ test.describe('Self Purchase Emails', {
       withState: true  // This will use US country with state
     });
     console.log('Created test user:', userDetails);
+    const journey = await emailHandler.startJourney(userDetails.email);
 
     // Complete purchase flow
     await TestFlowHelper.completeOrderFlow(page, userDetails);
+    journey.mark('payment');
 
     // Verify welcome email and login link
     await emailHandler.verifyWelcomeProcess(page, userDetails, testInfo);
+
+    // Exactly one welcome email, on time
+    await journey.expectSequence([
+      { name: 'welcome', subject: EMAIL_CONFIG.SUBJECTS.WELCOME, after: 'payment', within: EMAIL_CONFIG.JOURNEY.SLA.WELCOME }
+    ], testInfo);
   });
 
   test('verify login email', {
@@ -91,8 +111,8 @@ test.describe('Gift Flow Emails', {
 }, () => {
   let testData: TestDataGenerator;
 
-  test.beforeEach(() => {
-    testData = new TestDataGenerator();
+  test.beforeEach(({}, testInfo) => {
+    testData = new TestDataGenerator(testInfo);
   });
 
   test('verify gift flow emails', async ({ page, emailHandler }, testInfo) => {
@@ -103,6 +123,7 @@ test.describe('Gift Flow Emails', {
     });
     if (!giftGiver) throw new Error('Gift giver details required for gift flow');
     console.log('Created test users:', { storyteller, giftGiver });
+    const giverJourney = await emailHandler.startJourney(giftGiver.email);
 
     // Complete gift purchase flow
     await TestFlowHelper.completeGiftOrderFlow(page, storyteller, giftGiver);
@@ -116,6 +137,13 @@ test.describe('Gift Flow Emails', {
       expectedSender: EMAIL_CONFIG.SENDERS.STORIES,
       requiredLinks: ['activation']
     });
+    await emailHandler.verifyEmailVisual(receiveEmail, 'giftActivation', testInfo, [
+      storyteller.firstName, storyteller.lastName, giftGiver.firstName, giftGiver.lastName
+    ]);
+    await emailHandler.verifyTextParity(receiveEmail, testInfo, {
+      receiverFirstName: storyteller.firstName,
+      giverFirstName: giftGiver.firstName
+    });
 
     // Extract and click activation link
     const activationLink = await emailHandler.extractActivationLink(receiveEmail);
@@ -127,6 +155,7 @@ test.describe('Gift Flow Emails', {
     const activationPage = new GiftActivationPage(page);
     await activationPage.verifyPrefilledDetails(storyteller);
     await activationPage.completeActivation();
+    giverJourney.mark('activation');
 
     // Verify successful activation by checking email in settings
     const settingsPage = new SettingsPage(page);
@@ -138,6 +167,15 @@ test.describe('Gift Flow Emails', {
       expectedSubject: EMAIL_CONFIG.SUBJECTS.GIFT_OPENED,
       expectedSender: EMAIL_CONFIG.SENDERS.STORIES
     });
+    await emailHandler.verifyEmailVisual(openedEmail, 'giftOpened', testInfo, [
+      storyteller.firstName, storyteller.lastName, giftGiver.firstName, giftGiver.lastName
+    ]);
+    await emailHandler.verifyTextParity(openedEmail, testInfo);
+
+    // Gift giver gets exactly one gift opened notification, on time after activation
+    await giverJourney.expectSequence([
+      { name: 'gift opened', subject: EMAIL_CONFIG.SUBJECTS.GIFT_OPENED, after: 'activation', within: EMAIL_CONFIG.JOURNEY.SLA.GIFT_OPENED }
+    ], testInfo, { allowExtra: true });
   });
 });
 
@@ -145,25 +183,25 @@ test.describe('Gift Flow Emails', {
  * Weekly Question Email Tests
  * 
  * These tests verify the weekly question email flow:
- * 1. Receiving weekly question emails
+ * 1. Receiving weekly question emails when the schedule says they are due
  * 2. Clicking answer link to answer on website
  * 3. Replying directly via email
- * 4. Answer verification on website
+ * 4. Answer verification on website, with quoted history and signature stripped
  * 
  * Features tested:
  * - Email delivery and content verification
  * - Web-based answering through question link
  * - Email-based answering through reply
  * - Answer synchronization between email and web
- * - Photo attachments (coming soon)
+ * - Plain text, HTML and photo attachment replies
  */
 test.describe('Weekly Question Emails', {
   tag: ['@Emails']
 }, () => {
   let testData: TestDataGenerator;
 
-  test.beforeEach(() => {
-    testData = new TestDataGenerator();
+  test.beforeEach(({}, testInfo) => {
+    testData = new TestDataGenerator(testInfo);
   });
 
   test('verify weekly question email', {
@@ -175,15 +213,22 @@ test.describe('Weekly Question Emails', {
     });
     console.log('Created test user:', userDetails);
 
-    // Complete purchase flow and verify login
+    // Complete purchase flow and read when the first question is due
     await TestFlowHelper.completeOrderFlow(page, userDetails);
+    const orderedAt = new Date();
+    await TestFlowHelper.goToDashboard(page);
+    const due = await emailHandler.getNextQuestionDue(page, orderedAt);
+    test.setTimeout(QuestionSchedule.testTimeout(due, testInfo.timeout));
+
+    // Verify login
     const settingsPage = new SettingsPage(page);
     await settingsPage.verifyUserEmail(userDetails.email);
 
-    // Get weekly question email (in test mode)
+    // Get weekly question email, within its schedule window
     const questionEmail = await emailHandler.waitForWeeklyQuestionEmail(userDetails.email, {
       firstName: userDetails.firstName,
-      testMode: true
+      testMode: true,
+      due
     });
 
     // Extract actual question from subject
@@ -196,6 +241,10 @@ test.describe('Weekly Question Emails', {
       expectedSender: EMAIL_CONFIG.SENDERS.QUESTIONS,
       requiredLinks: ['question']
     });
+    await emailHandler.verifyEmailVisual(questionEmail, 'weeklyQuestion', testInfo, [
+      userDetails.firstName, userDetails.lastName, actualQuestion
+    ]);
+    await emailHandler.verifyTextParity(questionEmail, testInfo, { question: actualQuestion });
 
     // Click question link and verify it works
     const questionLink = await emailHandler.extractQuestionLink(questionEmail);
@@ -207,47 +256,58 @@ test.describe('Weekly Question Emails', {
     await questionsPage.waitForDashboard();
   });
 
-  test('verify weekly question email reply', {
-    tag: ['@WIP']
-  }, async ({ page, emailHandler }, testInfo) => {
-    // Create test user with MailSlurp inbox
-    const { storyteller: userDetails } = await testData.createTestUser(emailHandler, {
-      withState: true
-    });
-    console.log('Created test user:', userDetails);
-
-    // Complete purchase flow and verify login
-    await TestFlowHelper.completeOrderFlow(page, userDetails);
-    const settingsPage = new SettingsPage(page);
-    await settingsPage.verifyUserEmail(userDetails.email);
+  // Replies as different mail clients send them, each with quoted history and a signature
+  const replyVariants: Array<{ name: string; format: ReplyFormat; answer: string; images: number }> = [
+    { name: 'plain text', format: 'text', answer: "Here's my answer to the weekly question!", images: 0 },
+    { name: 'HTML', format: 'html', answer: 'We spent every summer at the lake.\nGrandpa taught me to fish there.', images: 0 },
+    { name: 'image attachments', format: 'text', answer: 'Some photos from that summer.', images: 2 }
+  ];
+
+  for (const variant of replyVariants) {
+    test(`verify weekly question email reply - ${variant.name}`, {
+      tag: ['@WIP']
+    }, async ({ page, emailHandler }, testInfo) => {
+      // Create test user with MailSlurp inbox
+      const { storyteller: userDetails } = await testData.createTestUser(emailHandler, {
+        withState: true
+      });
+      console.log('Created test user:', userDetails);
+
+      // Complete purchase flow and read when the first question is due
+      await TestFlowHelper.completeOrderFlow(page, userDetails);
+      const orderedAt = new Date();
+      await TestFlowHelper.goToDashboard(page);
+      const due = await emailHandler.getNextQuestionDue(page, orderedAt);
+      // Wait for the question, then for the reply to show up on the dashboard
+      test.setTimeout(QuestionSchedule.testTimeout(due, testInfo.timeout,
+        EMAIL_CONFIG.REPLIES.INGEST_TIMEOUT + EMAIL_CONFIG.QUESTION_SCHEDULE.TEST_MARGIN));
+
+      // Verify login
+      const settingsPage = new SettingsPage(page);
+      await settingsPage.verifyUserEmail(userDetails.email);
+
+      // Get weekly question email, within its schedule window
+      const questionEmail = await emailHandler.waitForWeeklyQuestionEmail(userDetails.email, {
+        firstName: userDetails.firstName,
+        testMode: true,
+        due
+      });
+
+      // Extract question from subject
+      const match = questionEmail.subject.match(/^[^,]+, (.+)$/);
+      const question = match ? match[1] : '';
+      console.log('Received weekly question:', question);
+
+      // Reply to email with answer, quoting the question and signed like a phone would
+      const images: string[] = [];
+      for (let i = 0; i < variant.images; i++) {
+        images.push(await createTestImage(page, testInfo.outputPath(`reply-image-${i + 1}.png`), i));
+      }
+      await emailHandler.replyToEmail(questionEmail, variant.answer, images, { format: variant.format });
 
-    // Get weekly question email
-    const questionEmail = await emailHandler.waitForWeeklyQuestionEmail(userDetails.email, {
-      firstName: userDetails.firstName,
-      testMode: true
+      // Wait for the answer to appear on website, without the quote and signature
+      await page.goto(URLS.APP);
+      await emailHandler.verifyReplyIngested(page, question, { answer: variant.answer, attachments: images }, testInfo);
     });
-
-    // Extract question from subject
-    const match = questionEmail.subject.match(/^[^,]+, (.+)$/);
-    const question = match ? match[1] : '';
-    console.log('Received weekly question:', question);
-
-    // Reply to email with answer
-    const answer = "Here's my answer to the weekly question!";
-    await emailHandler.replyToEmail(questionEmail, answer);
-
-    // Wait for answer to appear on website (30 sec with 3 retries)
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      try {
-        const questionsPage = new QuestionsPage(page);
-        await questionsPage.waitForDashboard();
-        await questionsPage.verifyAnswerText(question, answer);
-        break;
-      } catch (error) {
-        if (attempt === 3) throw error;
-        console.log(`Attempt ${attempt} failed, retrying in 30 seconds...`);
-        await page.waitForTimeout(30000);
-      }
-    }
-  });
+  }
 });
@@ -0,0 +1,33 @@
+import { test, expect } from '@playwright/test';
+import { FunnelHistory, FunnelSample, parseFunnelStep, percentile } from '../helpers/FunnelTiming';
+
+/**
+ * Funnel Timing Tests
+ *
+ * The history and p50/p95 table FunnelReporter prints (see FunnelTiming), on
+ * samples written by the test itself. Runs without a live app.
+ */
+test.describe('Funnel Timing', {
+  tag: ['@Local']
+}, () => {
+  test('aggregate funnel step timings across runs', async ({}, testInfo) => {
+    const history = new FunnelHistory(testInfo.outputPath('funnel-timings.jsonl'));
+    const sample = (runId: string, step: FunnelSample['step'], duration: number, ok = true): FunnelSample =>
+      ({ runId, project: 'Chrome', step, duration, ok, test: 'order', at: new Date().toISOString() });
+    history.append([1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(i => sample('run-1', 'payment', i * 1000)));
+    history.append([sample('run-2', 'payment', 20000), sample('run-2', 'details', 3000, false), sample('run-2', 'home', 1500)]);
+
+    expect(parseFunnelStep('funnel: payment')).toBe('payment');
+    expect(parseFunnelStep('after-payment')).toBeUndefined();
+    expect(percentile([3, 1, 2], 50)).toBe(2);
+
+    const stats = FunnelHistory.stats(history.samples(), 'run-2');
+    expect(stats.map(row => row.step)).toEqual(['home', 'details', 'payment']);
+    expect(stats.find(row => row.step === 'payment')).toMatchObject({ started: 11, failed: 0, p50: 6000, p95: 20000, latestP50: 20000 });
+    expect(stats.find(row => row.step === 'details')).toMatchObject({ started: 1, failed: 1, p50: undefined });
+    expect(FunnelHistory.formatTable(stats, 2)).toContain('| payment | 20.0s | 6.0s | 20.0s | 11 | 0 | 0% |');
+
+    // Only the latest runs count
+    expect(history.samples(1).every(kept => kept.runId === 'run-2')).toBeTruthy();
+  });
+});
@@ -4,6 +4,7 @@ import { OrderPage } from '../pages/OrderPage';
 import { StoryDetailsPage } from '../pages/StoryDetailsPage';
 import { PaymentPage, stripeTestCards } from '../pages/PaymentPage';
 import { TestDataGenerator } from '../helpers/TestDataGenerator';
+import { persona } from '../helpers/PersonaBuilder';
 import { CookieConsentOption } from '../pages/BasePage';
 import { PRICES, calculateTotalPrice } from '../data/prices.config';
 
@@ -12,8 +13,8 @@ test.describe('Gift Order Flow', {
 }, () => {
   let testData: TestDataGenerator;
 
-  test.beforeEach(() => {
-    testData = new TestDataGenerator();
+  test.beforeEach(({}, testInfo) => {
+    testData = new TestDataGenerator(testInfo);
   });
 
   test('complete gift order', {
@@ -73,15 +74,8 @@ test.describe('Gift Order Flow', {
     const paymentPage = new PaymentPage(page);
 
     // Generate test data with tomorrow's date
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const futureDate = tomorrow.toISOString().split('T')[0]; // Format: YYYY-MM-DD
-    console.log('Setting gift delivery date to:', futureDate);
-    const storyteller = await testData.generateStoryTeller({ 
-      isGiftRecipient: true,
-      giftDate: futureDate 
-    });
-    const giftGiver = await testData.generateGiftGiver();
+    const { storyteller, giftGiver } = await persona(testData).giftRecipient().giftDate('+1d').build();
+    if (!giftGiver) throw new Error('Gift giver details required for gift flow');
     console.log('Generated test data with future date:', { storyteller, giftGiver });
 
     await homePage.startOrderFlow(CookieConsentOption.ALLOW_ALL);
@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+import { QuestionsPage } from '../pages/QuestionsPage';
+import { TestDataGenerator } from '../helpers/TestDataGenerator';
+import { OrderJourney } from '../helpers/OrderJourney';
+import { persona } from '../helpers/PersonaBuilder';
+
+/**
+ * Order Journey Tests
+ *
+ * The order funnel run as named, checkpointed steps (see OrderJourney). Each
+ * step shows in the report as a test.step named after its checkpoint. The
+ * resume test reuses the checkpoints the first test saved in the same project,
+ * so the tests run in order.
+ *
+ * To debug a later step without replaying the funnel, run any journey test
+ * with JOURNEY_RESUME_FROM=<checkpoint>, e.g. after-details to retry payment.
+ */
+test.describe('Order Journey', {
+  tag: ['@Full', '@Journey']
+}, () => {
+  test.describe.configure({ mode: 'serial' });
+
+  let testData: TestDataGenerator;
+
+  test.beforeEach(({}, testInfo) => {
+    testData = new TestDataGenerator(testInfo);
+  });
+
+  test('run the self order journey with checkpoints', async ({ page }, testInfo) => {
+    const { storyteller } = await persona(testData).build();
+    const journey = new OrderJourney(page, storyteller, { testInfo });
+    const startedAt = new Date().toISOString();
+
+    await journey.run();
+
+    expect(OrderJourney.list(journey.project, journey.name)).toEqual(journey.steps().map(step => `after-${step}`));
+    expectSavedSince(journey, startedAt);
+    expect(await new QuestionsPage(page).getStoryAuthor()).toBe(`By ${journey.storyteller.firstName} ${journey.storyteller.lastName}`);
+  });
+
+  test('resume the dashboard from the after-payment checkpoint', async ({ page }, testInfo) => {
+    const { storyteller } = await persona(testData).build();
+    const journey = new OrderJourney(page, storyteller, { testInfo });
+
+    await journey.run({ from: 'after-payment' });
+
+    // The checkpoint's user, not the one generated for this test
+    expect(journey.storyteller.email).not.toBe(storyteller.email);
+    expect(await new QuestionsPage(page).getStoryAuthor()).toBe(`By ${journey.storyteller.firstName} ${journey.storyteller.lastName}`);
+  });
+
+  test('run the gift order journey up to payment', async ({ page }, testInfo) => {
+    const { storyteller, giftGiver } = await persona(testData).giftRecipient().build();
+    const journey = new OrderJourney(page, storyteller, { giftGiver, testInfo });
+    const startedAt = new Date().toISOString();
+
+    await journey.run();
+
+    expect(journey.steps()).not.toContain('dashboard');
+    expect(OrderJourney.list(journey.project, journey.name)).toContain('after-payment');
+    expectSavedSince(journey, startedAt);
+  });
+});
+
+/**
+ * Every step's checkpoint was saved by this run, not left by an earlier one
+ */
+function expectSavedSince(journey: OrderJourney, startedAt: string) {
+  for (const step of journey.steps()) {
+    const checkpoint = OrderJourney.load(journey.project, journey.name, `after-${step}`);
+    expect(checkpoint.savedAt >= startedAt, `after-${step} saved ${checkpoint.savedAt}, before this run`).toBeTruthy();
+  }
+}
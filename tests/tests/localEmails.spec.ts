@@ -0,0 +1,413 @@
+import { expect } from '@playwright/test';
+import { test } from '../fixtures/localEmail';
+import { EmailHandler, EmailMode } from '../helpers/EmailHandler';
+import { TestDataGenerator } from '../helpers/TestDataGenerator';
+import { LocalSmtpServer } from '../helpers/LocalSmtpServer';
+import { EmailLinter } from '../helpers/EmailLinter';
+import { EmailTextParity } from '../helpers/EmailTextParity';
+import { EmailHeaderInspector } from '../helpers/EmailHeaderInspector';
+import { TrackingLinkResolver } from '../helpers/TrackingLinkResolver';
+import { stripReply } from '../helpers/EmailReply';
+import { QuestionSchedule } from '../helpers/QuestionSchedule';
+import { findRenderingProblems } from '../helpers/NameRendering';
+import { EMAIL_CONFIG } from '../data/test.config';
+import { PERSONAS } from '../data/personas.config';
+
+/**
+ * Local SMTP Email Tests
+ *
+ * These tests run the EmailHandler against the in-process SMTP capture server,
+ * with AppEmailStandIn playing the app. No MailSlurp key or live app needed.
+ *
+ * Features tested:
+ * - Real MIME messages stored per recipient
+ * - Query matching (subject, sender, time, body, nth) across the whole inbox
+ * - Link extraction from the HTML part and tracking link resolution
+ * - HTML linting of every received email
+ * - Plain text alternative parity with the HTML part
+ * - Header injection detection
+ * - Persona names intact in subjects and bodies
+ * - Journey order, latency SLAs and duplicate detection
+ * - Weekly question schedule windows
+ * - Recording email fixtures and replaying them in fake mode
+ * - Full content retrieval and screenshots
+ * - Replies sent back through the local server
+ */
+test.describe('Local SMTP Emails', {
+  tag: ['@Emails', '@Local']
+}, () => {
+  test('capture welcome email and extract login link', async ({ emailHandler, standIn }) => {
+    const address = await emailHandler.createLocalInbox();
+    await standIn.sendWelcomeEmail(address, { firstName: 'Jane' });
+
+    const email = await emailHandler.waitForWelcomeEmail(address);
+    expect(email.subject).toBe(EMAIL_CONFIG.SUBJECTS.WELCOME);
+    expect(email.from).toBe(EMAIL_CONFIG.SENDERS.STORIES);
+    expect(email.to).toContain(address.toLowerCase());
+    expect(email.html).toContain('Visit MyStories');
+    expect(email.body).toContain('Welcome, Jane!');
+
+    const link = await emailHandler.extractWelcomeLink(email);
+    expect(link.startsWith(EMAIL_CONFIG.LINK_PATTERNS.BASE)).toBeTruthy();
+  });
+
+  test('pick the login email when several emails arrive', async ({ emailHandler, standIn }) => {
+    const address = await emailHandler.createLocalInbox();
+    await standIn.sendWelcomeEmail(address, { firstName: 'John' });
+    await standIn.sendLoginEmail(address);
+    await standIn.sendGiftOpenedEmail(address, { receiverFirstName: 'Jane' });
+
+    const loginEmail = await emailHandler.waitForLoginEmail(address);
+    expect(loginEmail.subject).toBe(EMAIL_CONFIG.SUBJECTS.LOGIN);
+
+    const loginLink = await emailHandler.extractLoginLink(loginEmail);
+    expect(loginLink).toMatch(EMAIL_CONFIG.LINK_PATTERNS.LOGIN);
+  });
+
+  test('find emails by query instead of latest arrival', async ({ emailHandler, standIn }) => {
+    const address = await emailHandler.createLocalInbox();
+    await standIn.sendLoginEmail(address);
+    const firstLogin = await emailHandler.waitForLoginEmail(address);
+    await standIn.sendLoginEmail(address);
+    await standIn.sendWelcomeEmail(address, { firstName: 'Jane' });
+
+    const secondLogin = await emailHandler.waitForLoginEmail(address, { receivedAfter: firstLogin.timestamp });
+    expect(secondLogin.id).not.toBe(firstLogin.id);
+
+    const nthLogin = await emailHandler.findEmail(address, { subject: /^Log in/, nth: 2 });
+    expect(nthLogin.id).toBe(secondLogin.id);
+
+    const welcome = await emailHandler.findEmail(address, {
+      from: EMAIL_CONFIG.SENDERS.STORIES,
+      bodyContains: 'Welcome, Jane!'
+    });
+    expect(welcome.subject).toBe(EMAIL_CONFIG.SUBJECTS.WELCOME);
+  });
+
+  test('report rejected emails when no email matches', async ({ emailHandler, standIn }) => {
+    const address = await emailHandler.createLocalInbox();
+    await standIn.sendWelcomeEmail(address, { firstName: 'Jane' });
+
+    const search = emailHandler.findEmail(address, {
+      subject: { template: EMAIL_CONFIG.SUBJECTS.GIFT_RECEIVE, params: { receiverFirstName: 'Jane' } }
+    }, { timeout: 1000 });
+    await expect(search).rejects.toThrow(/Saw 1 message\(s\):\n  - "Welcome to MyStories" .*: subject does not match/);
+  });
+
+  test('lint every received email', async ({ emailHandler, standIn }) => {
+    const address = await emailHandler.createLocalInbox();
+    await standIn.sendWelcomeEmail(address, { firstName: 'Jane' });
+    await standIn.sendWeeklyQuestionEmail(address, { firstName: 'Jane', question: 'Where did you grow up?' });
+
+    await emailHandler.waitForWelcomeEmail(address);
+    await emailHandler.waitForWeeklyQuestionEmail(address, { firstName: 'Jane', testMode: true });
+
+    const reports = emailHandler.getLintReports();
+    expect(reports).toHaveLength(2);
+    for (const report of reports) {
+      expect(report.findings.filter(finding => finding.severity === 'error')).toEqual([]);
+    }
+
+    const broken = new EmailLinter().lint({
+      id: 'broken',
+      subject: 'Hi {firstName}',
+      body: 'Hi {firstName}',
+      html: '<body><img src="/logo.png"><a href="http://example.com">Go</a></body>',
+      from: EMAIL_CONFIG.SENDERS.QUESTIONS,
+      to: [address],
+      timestamp: new Date()
+    });
+    expect(new Set(broken.findings.map(finding => finding.rule))).toEqual(
+      new Set(['image-alt', 'absolute-https', 'unsubscribe', 'preheader', 'placeholder'])
+    );
+  });
+
+  test('check the text part against the HTML part', async ({ emailHandler, standIn }, testInfo) => {
+    const address = await emailHandler.createLocalInbox();
+    await standIn.sendGiftReceiveEmail(address, { receiverFirstName: 'Jane', giverFirstName: 'John' });
+    const email = await emailHandler.waitForGiftReceiveEmail(address, { receiverFirstName: 'Jane', giverFirstName: 'John' });
+
+    const report = await emailHandler.verifyTextParity(email, testInfo, { receiverFirstName: 'Jane', giverFirstName: 'John' });
+    expect(report?.links.map(link => link.label)).toEqual(['Get started']);
+    expect(report?.links[0].textUrl).toBe(report?.links[0].href);
+
+    // Text parts that drop the CTA, a name, or everything
+    const parity = new EmailTextParity();
+    const full = await emailHandler.getProvider().getEmail(email.id);
+    const rules = (text: string | undefined) => parity
+      .check({ subject: email.subject, text, html: full.html }, { receiverFirstName: 'Jane', giverFirstName: 'John' })
+      .findings.filter(finding => finding.severity === 'error')
+      .map(finding => finding.rule);
+    expect(rules(full.body.replace(/Get started: \S+/, ''))).toEqual(['cta-link']);
+    expect(rules(full.body.replace(/John/g, 'Someone'))).toEqual(['personalization']);
+    expect(rules('  ')).toEqual(['text-part']);
+    expect(rules(undefined)).toEqual(['text-part']);
+  });
+
+  test('detect headers injected through names in subjects', async ({ emailHandler, standIn }, testInfo) => {
+    // Names that need encoding arrive intact when the sender encodes them
+    const address = await emailHandler.createLocalInbox();
+    const receiver = 'שרה';
+    const giver = 'A'.repeat(100);
+    await standIn.sendGiftReceiveEmail(address, { receiverFirstName: receiver, giverFirstName: giver });
+    const email = await emailHandler.waitForGiftReceiveEmail(address, { receiverFirstName: receiver, giverFirstName: giver });
+    const safe = await emailHandler.verifyHeaderSafety(email, testInfo, {
+      recipient: address,
+      subject: `A special gift for ${receiver}, from ${giver}`,
+      forbiddenHeaders: ['X-Injected', 'Bcc']
+    });
+    expect(safe?.rawSubject).toMatch(/^=\?UTF-8\?/i);
+
+    // A template engine pasting a raw line break into the subject
+    const victim = await emailHandler.createLocalInbox();
+    await standIn.sendRawEmail(EMAIL_CONFIG.SENDERS.STORIES, victim, [
+      `From: MyStories <${EMAIL_CONFIG.SENDERS.STORIES}>`,
+      `To: ${victim}`,
+      'Subject: A special gift for Jane',
+      'Bcc: injected@example.com',
+      'X-Injected: crlf, from John',
+      '',
+      'Hello'
+    ].join('\r\n'));
+    const injected = await emailHandler.findEmail(victim, { from: EMAIL_CONFIG.SENDERS.STORIES });
+    const inspection = await new EmailHeaderInspector().inspect(await emailHandler.getProvider().getRawEmail(injected.id), {
+      recipient: victim,
+      subjectContains: ['from John'],
+      forbiddenHeaders: ['X-Injected', 'Bcc']
+    });
+    expect(inspection.findings).toEqual([
+      'Injected header: X-Injected',
+      'Injected header: Bcc',
+      'Subject "A special gift for Jane" lost "from John"',
+      'Sent to unexpected recipient(s): injected@example.com'
+    ]);
+  });
+
+  test('show persona names intact in emails', async ({ emailHandler, standIn }, testInfo) => {
+    for (const persona of PERSONAS) {
+      const address = await emailHandler.createLocalInbox();
+      const names = { receiverFirstName: persona.firstName, giverFirstName: persona.lastName };
+      await standIn.sendGiftReceiveEmail(address, names);
+      const email = await emailHandler.waitForGiftReceiveEmail(address, names);
+      const findings = await emailHandler.verifyNameRendering(email, testInfo, names, {
+        inSubject: ['receiverFirstName', 'giverFirstName']
+      });
+      expect(findings, persona.id).toEqual([]);
+    }
+
+    // The ways names get mangled on the way
+    const problems = (rendered: string, value: string) =>
+      findRenderingProblems(rendered, { name: value }).map(finding => finding.problem);
+    expect(problems('Hi Zoe\u0308', 'Zoë')).toEqual([]);
+    expect(problems('Hi ZoÃ«', 'Zoë')).toEqual(['mojibake']);
+    expect(problems('Hi D&#39;Arcy', "D'Arcy")).toEqual(['html-escaped']);
+    expect(problems(`Hi ${PERSONAS.find(p => p.id === 'max-length')!.firstName.slice(0, 40)}…`,
+      PERSONAS.find(p => p.id === 'max-length')!.firstName)).toEqual(['truncated']);
+    expect(problems('Hi \uFFFD\uFFFD', '美咲')).toEqual(['replacement-character', 'missing']);
+    expect(findRenderingProblems('Hello', { message: 'Happy birthday 🎂' }, { optional: ['message'] })).toEqual([]);
+  });
+
+  test('resolve tracking links to their app routes', async ({ emailHandler, standIn }) => {
+    const address = await emailHandler.createLocalInbox();
+    await standIn.sendGiftReceiveEmail(address, { receiverFirstName: 'Jane', giverFirstName: 'John' });
+    await standIn.sendWeeklyQuestionEmail(address, { firstName: 'Jane', question: 'Where did you grow up?' });
+
+    const resolver = new TrackingLinkResolver();
+    const giftEmail = await emailHandler.waitForGiftReceiveEmail(address, { receiverFirstName: 'Jane', giverFirstName: 'John' });
+    const activation = await resolver.resolveAndVerify(await emailHandler.extractActivationLink(giftEmail), 'activation');
+    expect(activation.method).toBe('decoded');
+    expect(activation.problems).toEqual([]);
+    expect(activation.utm.utm_campaign).toBe('gift_receive');
+
+    const questionEmail = await emailHandler.waitForWeeklyQuestionEmail(address, { firstName: 'Jane', testMode: true });
+    const questionLink = await emailHandler.extractQuestionLink(questionEmail);
+    expect((await resolver.resolveAndVerify(questionLink, 'question')).problems).toEqual([]);
+
+    const wrongRoute = await resolver.resolveAndVerify(questionLink, 'login');
+    expect(wrongRoute.problems).toEqual([expect.stringContaining('is the question route, expected login')]);
+  });
+
+  test('check the email journey order and latency', async ({ emailHandler, standIn }, testInfo) => {
+    const address = await emailHandler.createLocalInbox();
+    const journey = await emailHandler.startJourney(address);
+    journey.mark('payment');
+    await standIn.sendWelcomeEmail(address, { firstName: 'Jane' });
+    await standIn.sendLoginEmail(address);
+
+    const report = await journey.expectSequence([
+      { name: 'welcome', subject: EMAIL_CONFIG.SUBJECTS.WELCOME, after: 'payment', within: EMAIL_CONFIG.JOURNEY.SLA.WELCOME },
+      { name: 'login', subject: EMAIL_CONFIG.SUBJECTS.LOGIN, after: 'welcome', within: EMAIL_CONFIG.JOURNEY.SLA.LOGIN }
+    ], testInfo, { settle: 500 });
+    expect(report.entries.map(entry => entry.step)).toEqual(['welcome', 'login']);
+    expect(report.entries.every(entry => entry.status === 'ok')).toBeTruthy();
+  });
+
+  test('fail the journey on duplicate emails', async ({ emailHandler, standIn }, testInfo) => {
+    const address = await emailHandler.createLocalInbox();
+    const journey = await emailHandler.startJourney(address);
+    await standIn.sendWelcomeEmail(address, { firstName: 'Jane' });
+    await standIn.sendWelcomeEmail(address, { firstName: 'Jane' });
+
+    const check = journey.expectSequence([
+      { name: 'welcome', subject: EMAIL_CONFIG.SUBJECTS.WELCOME, within: EMAIL_CONFIG.JOURNEY.SLA.WELCOME }
+    ], testInfo, { settle: 500 });
+    await expect(check).rejects.toThrow(/Duplicate .*welcome.* email/);
+  });
+
+  test('wait for the weekly question within its schedule window', async ({ emailHandler, standIn }) => {
+    const address = await emailHandler.createLocalInbox();
+    const schedule = new QuestionSchedule(true, { FIRST_QUESTION: 0, INTERVAL: 60000 }, 10000);
+    const due = schedule.nextDue(new Date(), ['Scheduled for Mar 3, 2025', 'Scheduled for Mar 10, 2025']);
+    expect(due.position).toBe(1);
+
+    // The test timeout is raised by the wait up to the deadline (10s grace)
+    const timeout = QuestionSchedule.testTimeout(due, 120000, 0);
+    expect(timeout).toBeGreaterThan(129000);
+    expect(timeout).toBeLessThanOrEqual(130000);
+
+    await standIn.sendWeeklyQuestionEmail(address, { firstName: 'Jane', question: 'Where did you grow up?' });
+    const email = await emailHandler.waitForWeeklyQuestionEmail(address, { firstName: 'Jane', due });
+    expect(email.subject).toBe('Jane, Where did you grow up?');
+  });
+
+  test('report weekly questions that miss their schedule window', async ({ emailHandler }) => {
+    const address = await emailHandler.createLocalInbox();
+    const orderedAt = new Date();
+    const schedule = new QuestionSchedule(true, { FIRST_QUESTION: 0, INTERVAL: 60000 }, 1000);
+
+    // The second question is due one interval after the first
+    const later = schedule.nextDue(orderedAt, ['Last updated on Mar 3, 2025', 'Scheduled for Mar 10, 2025']);
+    expect(later.position).toBe(2);
+    expect(later.dueAt.getTime() - orderedAt.getTime()).toBe(60000);
+
+    const due = schedule.nextDue(orderedAt, ['Scheduled for Mar 3, 2025']);
+    await expect(emailHandler.waitForWeeklyQuestionEmail(address, { firstName: 'Jane', due }))
+      .rejects.toThrow(/Weekly question 1 email expected at .+, not received by .+ \(sandbox schedule\)/);
+  });
+
+  test('time the first production question from the order', async () => {
+    const orderedAt = new Date();
+    const schedule = new QuestionSchedule(false, { FIRST_QUESTION: 0, INTERVAL: 7 * 24 * 60 * 60 * 1000 }, 300000);
+
+    // Due right after the order, whatever day the dashboard shows
+    const first = schedule.nextDue(orderedAt, ['Scheduled for Mar 3, 2025', 'Scheduled for Mar 10, 2025']);
+    expect(first.dueAt).toEqual(orderedAt);
+    expect(first.deadline.getTime() - orderedAt.getTime()).toBe(300000);
+
+    // Later questions any time on their scheduled day
+    const later = schedule.nextDue(orderedAt, ['Last updated on Mar 3, 2025', 'Scheduled for Mar 10, 2025']);
+    expect(later.dueAt).toEqual(new Date('Mar 10, 2025'));
+    expect(later.deadline.getTime() - later.dueAt.getTime()).toBe(24 * 60 * 60 * 1000 + 300000);
+
+    expect(() => new QuestionSchedule(true, { FIRST_QUESTION: NaN, INTERVAL: NaN }))
+      .toThrow(/Set SANDBOX_FIRST_QUESTION_DELAY and SANDBOX_QUESTION_INTERVAL/);
+  });
+
+  test('record email fixtures and replay them for another user', async ({ standIn }, testInfo) => {
+    const dir = testInfo.outputPath('email-fixtures');
+    const recorder = new EmailHandler({ mode: EmailMode.LOCAL_SMTP, fixtures: { mode: 'record', dir } });
+    const recorded = await recorder.createLocalInbox();
+    await recorder.registerInbox(recorded, true, { firstName: 'Jane', lastName: 'Doe' });
+    await standIn.sendWelcomeEmail(recorded, { firstName: 'Jane' });
+    await standIn.sendGiftReceiveEmail(recorded, { receiverFirstName: 'Jane', giverFirstName: 'John' });
+    await recorder.waitForWelcomeEmail(recorded);
+    await recorder.waitForGiftReceiveEmail(recorded, { receiverFirstName: 'Jane', giverFirstName: 'John' });
+
+    const replayer = new EmailHandler({
+      mode: EmailMode.FAKE,
+      testDataGenerator: new TestDataGenerator(),
+      fixtures: { mode: 'replay', dir }
+    });
+    await replayer.registerInbox('mary.major@example.com', true, { firstName: 'Mary', lastName: 'Major' });
+
+    const welcome = await replayer.waitForWelcomeEmail('mary.major@example.com');
+    expect(welcome.subject).toBe(EMAIL_CONFIG.SUBJECTS.WELCOME);
+    expect(welcome.body).toContain('Welcome, Mary!');
+    expect(welcome.html).not.toContain('Jane');
+    const welcomeLink = await replayer.extractWelcomeLink(welcome);
+    expect(welcomeLink).toMatch(EMAIL_CONFIG.LINK_PATTERNS.BASE);
+    expect(welcomeLink, 'Tracking signature redacted').toMatch(/\/REDACTED$/);
+    const { destination } = await new TrackingLinkResolver().resolve(welcomeLink);
+    expect(new URL(destination).searchParams.get('token'), 'Login token redacted').toBe('REDACTED');
+    expect(new URL(destination).searchParams.get('utm_campaign')).toBe('welcome');
+
+    const gift = await replayer.waitForGiftReceiveEmail('mary.major@example.com', { receiverFirstName: 'Mary', giverFirstName: 'Paul' });
+    expect(gift.subject).toBe('A special gift for Mary, from Paul');
+    expect(await replayer.extractActivationLink(gift)).toMatch(EMAIL_CONFIG.LINK_PATTERNS.ACTIVATION);
+
+    await expect(replayer.waitForLoginEmail('mary.major@example.com')).rejects.toThrow(/No login email fixture/);
+  });
+
+  test('keep inboxes separate per recipient', async ({ emailHandler, standIn }) => {
+    const giver = await emailHandler.createLocalInbox();
+    const receiver = await emailHandler.createLocalInbox();
+    await standIn.sendGiftReceiveEmail(receiver, { receiverFirstName: 'Jane', giverFirstName: 'John' });
+
+    const receiveEmail = await emailHandler.waitForGiftReceiveEmail(receiver, {
+      receiverFirstName: 'Jane',
+      giverFirstName: 'John'
+    });
+    expect(receiveEmail.subject).toBe('A special gift for Jane, from John');
+    expect(LocalSmtpServer.shared().getMessages(giver)).toHaveLength(0);
+  });
+
+  test('get complete email content with screenshot', async ({ browser, emailHandler, standIn }, testInfo) => {
+    emailHandler.setBrowser(browser);
+    const address = await emailHandler.createLocalInbox();
+    await standIn.sendGiftReceiveEmail(address, { receiverFirstName: 'Jane', giverFirstName: 'John' });
+
+    const email = await emailHandler.waitForGiftReceiveEmail(address, {
+      receiverFirstName: 'Jane',
+      giverFirstName: 'John'
+    });
+    await emailHandler.verifyEmailContent(email, testInfo, {
+      expectedSender: EMAIL_CONFIG.SENDERS.STORIES,
+      requiredLinks: ['activation']
+    });
+
+    const content = await emailHandler.getEmailContent(email);
+    expect(content.links.activation).toMatch(EMAIL_CONFIG.LINK_PATTERNS.ACTIVATION);
+    expect(content.screenshot).toMatch(/\.png$/);
+  });
+
+  test('capture replies to weekly question emails', async ({ emailHandler, standIn }) => {
+    const address = await emailHandler.createLocalInbox();
+    await standIn.sendWeeklyQuestionEmail(address, {
+      firstName: 'Jane',
+      question: 'What is your earliest childhood memory?'
+    });
+
+    const questionEmail = await emailHandler.waitForWeeklyQuestionEmail(address, {
+      firstName: 'Jane',
+      testMode: true
+    });
+    await emailHandler.replyToEmail(questionEmail, 'My earliest memory is the sea.');
+
+    const replies = LocalSmtpServer.shared().getMessages(EMAIL_CONFIG.SENDERS.QUESTIONS);
+    const reply = replies.find(message => message.from === address.toLowerCase());
+    expect(reply?.subject).toBe(questionEmail.subject);
+    expect(reply?.text).toContain('My earliest memory is the sea.');
+  });
+
+  test('strip quoted history and signature from text and HTML replies', async ({ emailHandler, standIn }) => {
+    const question = 'Who taught you to ride a bike?';
+    const answer = 'My older brother.\nHe ran behind me the whole street.';
+
+    for (const format of ['text', 'html'] as const) {
+      const address = await emailHandler.createLocalInbox();
+      await standIn.sendWeeklyQuestionEmail(address, { firstName: 'Jane', question });
+      const questionEmail = await emailHandler.waitForWeeklyQuestionEmail(address, {
+        firstName: 'Jane',
+        testMode: true
+      });
+      await emailHandler.replyToEmail(questionEmail, answer, [], { format });
+
+      const replies = LocalSmtpServer.shared().getMessages(EMAIL_CONFIG.SENDERS.QUESTIONS);
+      const reply = replies.find(message => message.from === address.toLowerCase())!;
+      const body = format === 'html' ? reply.html! : reply.text;
+      expect(body, `${format} reply quotes the question`).toContain(question);
+      expect(body).toContain(EMAIL_CONFIG.REPLIES.SIGNATURE);
+      expect(stripReply(body, format === 'html'), `${format} reply`).toBe(answer);
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { test as base } from '../fixtures/inboxPool';
+import { EmailHandler, EmailMode } from '../helpers/EmailHandler';
+import { TestDataGenerator } from '../helpers/TestDataGenerator';
+import { NavigationHarness } from '../helpers/NavigationHarness';
+import { persona } from '../helpers/PersonaBuilder';
+import { FUNNEL_POINTS, NAVIGATION_ACTIONS } from '../data/navigation.config';
+
+// Extend base test with EmailHandler
+const test = base.extend<{ emailHandler: EmailHandler }>({
+  emailHandler: async ({ browser, inboxPool }, use, testInfo) => {
+    const inboxLease = process.env.EMAIL_MODE === 'mailslurp' ? inboxPool?.lease(testInfo.titlePath.join(' › ')) : undefined;
+    const handler = new EmailHandler({
+      mode: EmailMode[process.env.EMAIL_MODE?.toUpperCase() as keyof typeof EmailMode] || EmailMode.FAKE,
+      mailslurpApiKey: process.env.EMAIL_MODE === 'mailslurp' ? process.env.MAILSLURP_API_KEY : undefined,
+      inboxPool: inboxLease,
+      hardcodedEmails: process.env.EMAIL_MODE === 'hardcoded' ? {
+        purchaser: process.env.HARDCODED_EMAIL!,
+        recipient: process.env.HARDCODED_RECIPIENT_EMAIL
+      } : undefined,
+      testDataGenerator: process.env.EMAIL_MODE === 'fake' ? new TestDataGenerator() : undefined,
+      isSandboxMode: process.env.STRIPE_SANDBOX === 'true'
+    }, browser);
+    await use(handler);
+    await handler.attachLintReports(testInfo);
+    await inboxLease?.release();
+  }
+});
+
+/**
+ * Navigation Resilience Tests
+ *
+ * Back, forward, reload and open-in-new-tab at each point of the order funnel
+ * (order type, filled in details, Stripe checkout, success), for self and gift
+ * orders. Expected pages and form values are in tests/data/navigation.config.ts;
+ * after paying, the checkout must never be offered again, and the storyteller
+ * must get a single order email (needs a real inbox, EMAIL_MODE=mailslurp).
+ */
+for (const flow of ['self', 'gift'] as const) {
+  test.describe(`Navigation Resilience - ${flow} order`, {
+    tag: ['@Full', '@Navigation']
+  }, () => {
+    let testData: TestDataGenerator;
+
+    test.beforeEach(({}, testInfo) => {
+      testData = new TestDataGenerator(testInfo);
+    });
+
+    for (const point of FUNNEL_POINTS) {
+      for (const action of NAVIGATION_ACTIONS) {
+        test(`${action} at ${point}`, async ({ page, emailHandler }, testInfo) => {
+          const builder = persona(testData);
+          if (flow === 'gift') builder.giftRecipient();
+          const harness = new NavigationHarness(page, flow, emailHandler);
+
+          // Only a paid order sends emails to count
+          const users = point === 'success' ? await builder.register(emailHandler) : await builder.build();
+          await harness.reach(point, users);
+          await harness.check(point, action, testInfo);
+        });
+      }
+    }
+  });
+}
@@ -10,6 +10,7 @@ import { PRICES } from '../../data/prices.config';
 import { getRealCard } from '../../data/real-card';
 import { EmailHandler, EmailMode } from '../../helpers/EmailHandler';
 import { EMAIL_CONFIG } from '../../data/test.config';
+import { RefundLedger } from '../../helpers/RefundLedger';
 
 /**
  * ⚠️ REAL CREDIT CARD TESTS ⚠️
@@ -38,11 +39,11 @@ import { EMAIL_CONFIG } from '../../data/test.config';
 test.describe('Real Card Payment', { tag: '@real-card' }, () => {
   let testData: TestDataGenerator;
 
-  test.beforeEach(() => {
-    testData = new TestDataGenerator();
+  test.beforeEach(({}, testInfo) => {
+    testData = new TestDataGenerator(testInfo);
   });
 
-  test('complete purchase with real card', async ({ page }) => {
+  test('complete purchase with real card', async ({ page }, testInfo) => {
     console.log('⚠️ STARTING REAL CARD PAYMENT TEST ⚠️');
     
     // Initialize pages
@@ -104,30 +105,33 @@ test.describe('Real Card Payment', { tag: '@real-card' }, () => {
     await page.waitForURL(/\/order\/success/);
     console.log('✅ Payment completed successfully');
 
-    // Send backoffice refund info (not part of website validation)
-    try {
-      console.log('💳 Sending backoffice refund info...');
-      const emailHandler = new EmailHandler({
-        mode: EmailMode.MAILSLURP,  // Force MailSlurp for real card tests
-        mailslurpApiKey: process.env.MAILSLURP_API_KEY
-      });
-      
-      const transactionInfo = {
-        date: new Date().toISOString(),
-        amount: PRICES.PROMO_CODES.REAL_CARD_TEST.finalPrice,
-        cardLast4: getRealCard().number.slice(-4),
-        promoCode: PRICES.PROMO_CODES.REAL_CARD_TEST.code,
-        userDetails: {
-          firstName: userDetails.firstName,
-          lastName: userDetails.lastName,
-          email: userDetails.email
-        }
-      };
-      await emailHandler.sendRefundInfo(transactionInfo);
-      console.log('✅ Refund info sent successfully');
-    } catch (error) {
-      console.error('❌ Failed to send refund info:', error);
-      // Don't fail the test if refund email fails - it's not part of website validation
+    // Record the charge for backoffice refunds (not part of website validation)
+    const ledger = new RefundLedger();
+    ledger.recordCharge({
+      orderId: paymentPage.getOrderId(),
+      amount: totalPrice,
+      cardLast4: getRealCard().number.slice(-4),
+      promoCode: PRICES.PROMO_CODES.REAL_CARD_TEST.code,
+      user: {
+        firstName: userDetails.firstName,
+        lastName: userDetails.lastName,
+        email: userDetails.email
+      },
+      test: testInfo.titlePath.join(' › ')
+    });
+
+    // Optionally email the backoffice what is still to be refunded
+    if (EMAIL_CONFIG.REFUNDS.EMAIL_REPORT) {
+      try {
+        const emailHandler = new EmailHandler({
+          mode: EmailMode.MAILSLURP,  // Force MailSlurp for real card tests
+          mailslurpApiKey: process.env.MAILSLURP_API_KEY
+        });
+        await emailHandler.sendRefundReport(ledger.report());
+      } catch (error) {
+        console.error('❌ Failed to send refund report:', error);
+        // Don't fail the test if refund email fails - the charge is in the ledger
+      }
     }
   });
 });
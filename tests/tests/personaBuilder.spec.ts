@@ -0,0 +1,48 @@
+import { expect } from '@playwright/test';
+import { test } from '../fixtures/localEmail';
+import { persona } from '../helpers/PersonaBuilder';
+import { LocationMatrix } from '../helpers/LocationMatrix';
+import { TestDataGenerator } from '../helpers/TestDataGenerator';
+import { PERSONAS } from '../data/personas.config';
+
+/**
+ * Persona Builder Tests
+ *
+ * Users built with persona() (see PersonaBuilder): linked storyteller and gift
+ * giver pairs, inboxes registered with the EmailHandler, and the order form
+ * limits enforced before a test ever opens the page. Runs without a live app
+ * (local SMTP inboxes).
+ */
+test.describe('Persona Builder', {
+  tag: ['@Local']
+}, () => {
+  test('build linked gift users with registered inboxes', async ({ emailHandler, standIn }, testInfo) => {
+    const { storyteller, giftGiver } = await persona(new TestDataGenerator(testInfo))
+      .giftRecipient()
+      .as(PERSONAS.find(p => p.id === 'emoji-message')!)
+      .inCountry('Canada')
+      .copies(3)
+      .giftDate('+7d')
+      .register(emailHandler);
+
+    expect(giftGiver).toMatchObject({ country: 'Canada', state: undefined, copies: 3 });
+    expect(storyteller).toMatchObject({ firstName: 'Emma', giftGiverName: giftGiver!.firstName });
+    expect(storyteller.message).toHaveLength(1000);
+    expect(new Date(storyteller.giftDate!).getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000);
+
+    // Registered inboxes receive their emails
+    await standIn.sendGiftReceiveEmail(storyteller.email, { receiverFirstName: 'Emma', giverFirstName: giftGiver!.firstName });
+    await emailHandler.waitForGiftReceiveEmail(storyteller.email, { receiverFirstName: 'Emma', giverFirstName: giftGiver!.firstName });
+  });
+
+  test('reject what the order form would reject', async () => {
+    expect(() => persona().copies(12)).toThrow('Number of copies must be between 1 and 11, got 12');
+    expect(() => persona().inCountry('Canada').inState('Texas')).toThrow('State Texas is only allowed in United States, not Canada');
+    if (LocationMatrix.load().capturedAt) {
+      expect(() => persona().inState('Narnia')).toThrow(/not offered by the order form/);
+    }
+    expect(() => persona().giftRecipient().giftDate('2020-01-01')).toThrow('Gift date 2020-01-01 is in the past');
+    await expect(persona().giftDate('today').build()).rejects.toThrow(/only allowed for gift orders/);
+    expect((await persona().inState('Texas').build()).storyteller).toMatchObject({ country: 'United States', state: 'Texas' });
+  });
+});
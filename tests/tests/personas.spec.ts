@@ -0,0 +1,130 @@
+import { expect } from '@playwright/test';
+import { test as base } from '../fixtures/inboxPool';
+import { QuestionsPage } from '../pages/QuestionsPage';
+import { GiftActivationPage } from '../pages/GiftActivationPage';
+import { EmailHandler, EmailMode } from '../helpers/EmailHandler';
+import { TestDataGenerator } from '../helpers/TestDataGenerator';
+import { TestFlowHelper } from '../helpers/TestFlowHelper';
+import { findRenderingProblems } from '../helpers/NameRendering';
+import { PERSONAS } from '../data/personas.config';
+
+// Extend base test with EmailHandler
+const test = base.extend<{ emailHandler: EmailHandler }>({
+  emailHandler: async ({ browser, inboxPool }, use, testInfo) => {
+    const inboxLease = process.env.EMAIL_MODE === 'mailslurp' ? inboxPool?.lease(testInfo.titlePath.join(' › ')) : undefined;
+    const handler = new EmailHandler({
+      mode: EmailMode[process.env.EMAIL_MODE?.toUpperCase() as keyof typeof EmailMode] || EmailMode.FAKE,
+      mailslurpApiKey: process.env.EMAIL_MODE === 'mailslurp' ? process.env.MAILSLURP_API_KEY : undefined,
+      inboxPool: inboxLease,
+      hardcodedEmails: process.env.EMAIL_MODE === 'hardcoded' ? {
+        purchaser: process.env.HARDCODED_EMAIL!,
+        recipient: process.env.HARDCODED_RECIPIENT_EMAIL
+      } : undefined,
+      testDataGenerator: process.env.EMAIL_MODE === 'fake' ? new TestDataGenerator() : undefined,
+      isSandboxMode: process.env.STRIPE_SANDBOX === 'true'
+    }, browser);
+    await use(handler);
+    await handler.attachLintReports(testInfo);
+    await inboxLease?.release();
+  }
+});
+
+/**
+ * Check the dashboard shows the storyteller's name intact
+ * - Author is exactly "By <first> <last>"
+ * - Book title, where it includes the name, is not corrupted
+ */
+async function verifyDashboardNames(questionsPage: QuestionsPage, firstName: string, lastName: string) {
+  const storyName = await questionsPage.getStoryName();
+  const storyAuthor = await questionsPage.getStoryAuthor();
+  console.log('Dashboard book:', { storyName, storyAuthor });
+
+  expect(findRenderingProblems(storyName, { firstName }, { optional: ['firstName'] }).map(finding => finding.message), 'Book title').toEqual([]);
+  expect(findRenderingProblems(storyAuthor, { firstName, lastName }).map(finding => finding.message), 'Book author').toEqual([]);
+  expect(storyAuthor.normalize('NFC')).toBe(`By ${firstName} ${lastName}`.normalize('NFC'));
+}
+
+/**
+ * Boundary and Internationalized Persona Tests
+ *
+ * Runs self and gift orders for each persona in personas.config.ts
+ * (diacritics, CJK, right-to-left scripts, apostrophes and hyphens,
+ * single-character and maximum length names, emoji gift messages) and checks
+ * the names come through unchanged:
+ * - Dashboard book title and author
+ * - Welcome and gift receive emails: subject, text and HTML parts, see NameRendering
+ * - Gift activation form prefilled with the recipient's name
+ *
+ * Email checks need a real inbox (EMAIL_MODE=mailslurp); otherwise only the
+ * dashboard is checked.
+ */
+test.describe('Persona Names', {
+  tag: ['@Full', '@Personas']
+}, () => {
+  let testData: TestDataGenerator;
+
+  test.beforeEach(({}, testInfo) => {
+    testData = new TestDataGenerator(testInfo);
+  });
+
+  for (const persona of PERSONAS) {
+    test(`show names intact for a self order - ${persona.id}`, async ({ page, emailHandler }, testInfo) => {
+      testInfo.annotations.push({ type: 'persona', description: persona.description });
+      const { storyteller } = await testData.createTestUser(emailHandler, {
+        withState: true,
+        persona
+      });
+
+      await TestFlowHelper.completeOrderFlow(page, storyteller);
+      await TestFlowHelper.goToDashboard(page);
+      await verifyDashboardNames(new QuestionsPage(page), storyteller.firstName, storyteller.lastName);
+
+      const welcomeEmail = await emailHandler.waitForWelcomeEmail(storyteller.email);
+      await emailHandler.verifyNameRendering(welcomeEmail, testInfo, {
+        firstName: storyteller.firstName,
+        lastName: storyteller.lastName
+      }, { optional: ['lastName'] });
+    });
+
+    test(`show names intact for a gift order - ${persona.id}`, async ({ page, emailHandler }, testInfo) => {
+      testInfo.annotations.push({ type: 'persona', description: persona.description });
+      const { storyteller, giftGiver } = await testData.createTestUser(emailHandler, {
+        isGiftFlow: true,
+        withState: true,
+        persona
+      });
+      if (!giftGiver) throw new Error('Gift giver details required for gift flow');
+
+      await TestFlowHelper.completeGiftOrderFlow(page, storyteller, giftGiver);
+
+      // Subject carries both first names, the body may also show the gift message
+      const receiveEmail = await emailHandler.waitForGiftReceiveEmail(storyteller.email, {
+        giverFirstName: giftGiver.firstName,
+        receiverFirstName: storyteller.firstName
+      });
+      await emailHandler.verifyNameRendering(receiveEmail, testInfo, {
+        receiverFirstName: storyteller.firstName,
+        giverFirstName: giftGiver.firstName,
+        giftMessage: storyteller.message
+      }, { inSubject: ['receiverFirstName', 'giverFirstName'], optional: ['giftMessage'] });
+      await emailHandler.verifyTextParity(receiveEmail, testInfo, {
+        receiverFirstName: storyteller.firstName,
+        giverFirstName: giftGiver.firstName
+      });
+
+      if (emailHandler.getMode() !== EmailMode.MAILSLURP) {
+        testInfo.annotations.push({ type: 'skipped-check', description: 'Gift activation and dashboard need a real inbox (EMAIL_MODE=mailslurp)' });
+        return;
+      }
+
+      await page.goto(await emailHandler.extractActivationLink(receiveEmail));
+      const activationPage = new GiftActivationPage(page);
+      await activationPage.verifyPrefilledDetails(storyteller);
+      await activationPage.completeActivation();
+
+      const questionsPage = new QuestionsPage(page);
+      await questionsPage.waitForDashboard();
+      await verifyDashboardNames(questionsPage, storyteller.firstName, storyteller.lastName);
+    });
+  }
+});
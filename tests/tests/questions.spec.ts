@@ -1,6 +1,6 @@
-import { test, expect } from '@playwright/test';
+import { expect } from '@playwright/test';
+import { test } from '../fixtures/accountPool';
 import { QuestionsPage } from '../pages/QuestionsPage';
-import { TestDataGenerator } from '../helpers/TestDataGenerator';
 import { ScreenshotHelper } from '../helpers/ScreenshotHelper';
 import { TestFlowHelper } from '../helpers/TestFlowHelper';
 import { CookieConsentHandler } from '../helpers/CookieConsentHandler';
@@ -17,15 +17,14 @@ import * as path from 'path';
  * - Preview and PDF generation
  * - Question filtering
  *  - Verify book name and author + edit book name
+ *
+ * Each test uses a purchased account from the account pool (see AccountPool),
+ * reset to its starting questions, instead of buying a new subscription.
  */
 test.describe('Questions Flow', {
   tag: ['@Full', '@Questions']
 }, () => {
-  let testData: TestDataGenerator;
-
   test.beforeEach(async ({ page }) => {
-    testData = new TestDataGenerator();
-
     // Log console errors
     page.on('console', msg => {
       if (msg.type() === 'error') {
@@ -44,7 +43,7 @@ test.describe('Questions Flow', {
    * Complete Answer Workflow Test
    * 
    * Steps:
-   * 1. Complete purchase flow to access questions
+   * 1. Open the dashboard of a pooled account
    * 2. Write an answer to the first question
    * 3. Save and preview the answer
    *    - Captures screenshot
@@ -57,13 +56,8 @@ test.describe('Questions Flow', {
     tag: ['@Full']
   }, async ({ page }, testInfo) => {
     try {
-      // Generate test data
-      const userDetails = await testData.generateGiftGiver({ withState: true });
-      console.log('Generated test data:', userDetails);
-
-      // Complete purchase flow with helper
-      await TestFlowHelper.completeOrderFlow(page, userDetails);
-      await TestFlowHelper.goToDashboard(page);
+      // Open the pooled account's dashboard
+      await TestFlowHelper.openDashboard(page);
 
       // Initialize pages
       const questionsPage = new QuestionsPage(page);
@@ -115,7 +109,7 @@ test.describe('Questions Flow', {
    * Sanity Answer Workflow Test
    * 
    * Steps:
-   * 1. Complete purchase flow to access questions
+   * 1. Open the dashboard of a pooled account
    * 2. Write an answer to the first question
    * 3. Save the answer
    * 4. Test question filtering (completed/all)
@@ -128,13 +122,8 @@ test.describe('Questions Flow', {
     tag: ['@github-actions-debug']
   }, async ({ page }, testInfo) => {
     try {
-      // Generate test data
-      const userDetails = await testData.generateGiftGiver({ withState: true });
-      console.log('Generated test data:', userDetails);
-
-      // Complete purchase flow with helper
-      await TestFlowHelper.completeOrderFlow(page, userDetails);
-      await TestFlowHelper.goToDashboard(page);
+      // Open the pooled account's dashboard
+      await TestFlowHelper.openDashboard(page);
 
       // Initialize pages
       const questionsPage = new QuestionsPage(page);
@@ -168,7 +157,7 @@ test.describe('Questions Flow', {
    * Question Management Test
    * 
    * Steps:
-   * 1. Complete purchase flow to access questions
+   * 1. Open the dashboard of a pooled account
    * 2. Add a custom question
    *    - Verify it appears in the list
    * 3. Add a prewritten question
@@ -182,13 +171,8 @@ test.describe('Questions Flow', {
     tag: ['@Full']
   }, async ({ page }, testInfo) => {
     try {
-      // Generate test data
-      const userDetails = await testData.generateGiftGiver({ withState: true });
-      console.log('Generated test data:', userDetails);
-
-      // Complete purchase flow with helper
-      await TestFlowHelper.completeOrderFlow(page, userDetails);
-      await TestFlowHelper.goToDashboard(page);
+      // Open the pooled account's dashboard
+      await TestFlowHelper.openDashboard(page);
 
       // Initialize pages
       const questionsPage = new QuestionsPage(page);
@@ -241,19 +225,14 @@ test.describe('Questions Flow', {
    */
   test('verify story name and author', {
     tag: ['@Full']
-  }, async ({ page }, testInfo) => {
+  }, async ({ page, account }) => {
     try {
-      // Generate test data
-      const userDetails = await testData.generateGiftGiver({ withState: true });
-      console.log('Generated test data:', userDetails);
-
       // Construct full name from first name and last name
-      const fullName = `${userDetails.firstName} ${userDetails.lastName}`;
+      const fullName = `${account.firstName} ${account.lastName}`;
       console.log('Full name:', fullName);
 
-      // Complete purchase flow with helper
-      await TestFlowHelper.completeOrderFlow(page, userDetails);
-      await TestFlowHelper.goToDashboard(page);
+      // Open the pooled account's dashboard
+      await TestFlowHelper.openDashboard(page);
 
       // Initialize pages
       const questionsPage = new QuestionsPage(page);
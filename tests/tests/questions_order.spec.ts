@@ -1,6 +1,6 @@
-import { expect, test } from '@playwright/test';
+import { expect } from '@playwright/test';
+import { test } from '../fixtures/accountPool';
 import { QuestionsPage } from '../pages/QuestionsPage';
-import { TestDataGenerator } from '../helpers/TestDataGenerator';
 import { TestFlowHelper } from '../helpers/TestFlowHelper';
 import { CookieConsentHandler } from '../helpers/CookieConsentHandler';
 import { CookieConsentOption } from '../pages/BasePage';
@@ -12,13 +12,11 @@ These tests verify the functionality of:
 Question reordering via drag and drop (using keyboard drag)
 Schedule date updates after reordering
 Schedule updates after answering questions
-Schedule updates after question management (add/delete) */
+Schedule updates after question management (add/delete)
+Each test uses a purchased account from the account pool (see AccountPool), reset to its starting questions */
 
 test.describe('Questions Order and Schedule', { tag: ['@Full', '@Questions'] }, () => {
-  let testData: TestDataGenerator;
   test.beforeEach(async ({ page }) => {
-    testData = new TestDataGenerator();
-
     // Log console errors
     page.on('console', msg => {
       if (msg.type() === 'error') {
@@ -32,17 +30,15 @@ test.describe('Questions Order and Schedule', { tag: ['@Full', '@Questions'] },
       await cookieHandler.handle(CookieConsentOption.ALLOW_ALL);
     }
 
-    // Complete order flow to access questions.
-    const userDetails = await testData.generateGiftGiver({ withState: true });
-    await TestFlowHelper.completeOrderFlow(page, userDetails);
-    await TestFlowHelper.goToDashboard(page);
+    // Open the pooled account's dashboard to access questions.
+    await TestFlowHelper.openDashboard(page);
   });
 
   /**
   
   Verify question reordering (dates stay with positions)
   Steps:
-  Complete purchase flow to access questions
+  Open the dashboard of a pooled account
   Get initial question text and dates
   Move question from position 1 to position 3 using keyboard drag approach
   Verify question moved but dates stayed with positions */
@@ -79,7 +75,7 @@ test.describe('Questions Order and Schedule', { tag: ['@Full', '@Questions'] },
   
   Verify answered question affects scheduling
   Steps:
-  Complete purchase flow to access questions
+  Open the dashboard of a pooled account
   Get initial schedule dates
   Answer question 2
   Verify:
@@ -128,7 +124,7 @@ test.describe('Questions Order and Schedule', { tag: ['@Full', '@Questions'] },
   
   Verify question management affects schedule
   Steps:
-  Complete purchase flow to access questions
+  Open the dashboard of a pooled account
   Get initial schedule dates
   Delete a question and verify schedule updates
   Add a new question and verify schedule updates */
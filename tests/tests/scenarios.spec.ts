@@ -0,0 +1,29 @@
+import { test } from '@playwright/test';
+import { TestDataGenerator } from '../helpers/TestDataGenerator';
+import { loadScenarios, runScenario } from '../helpers/OrderScenario';
+
+/**
+ * Order Scenario Tests
+ *
+ * One test per order scenario in tests/data/scenarios/*.yml (see OrderScenario):
+ * order type, personas, country/state, copies, gift date and message, promo
+ * code, Stripe test card and cookie option, with the expected total and outcome.
+ * New coverage only needs a new YAML file.
+ */
+test.describe('Order Scenarios', {
+  tag: ['@Full', '@Scenarios']
+}, () => {
+  let testData: TestDataGenerator;
+
+  test.beforeEach(({}, testInfo) => {
+    testData = new TestDataGenerator(testInfo);
+  });
+
+  for (const scenario of loadScenarios()) {
+    test(scenario.name, {
+      tag: scenario.tags
+    }, async ({ page }, testInfo) => {
+      await runScenario(page, scenario, testData, testInfo);
+    });
+  }
+});
@@ -1,12 +1,15 @@
-import { test as base, expect } from '@playwright/test';
+import { expect } from '@playwright/test';
+import { test as base } from '../../fixtures/inboxPool';
 import { EmailHandler, EmailMode } from '../../helpers/EmailHandler';
 
 // Extend base test with EmailHandler
 const test = base.extend<{ emailHandler: EmailHandler }>({
-  emailHandler: async ({ browser }, use) => {
+  emailHandler: async ({ browser, inboxPool }, use, testInfo) => {
+    const inboxLease = process.env.EMAIL_MODE === 'mailslurp' ? inboxPool?.lease(testInfo.titlePath.join(' › ')) : undefined;
     const handler = new EmailHandler({
       mode: EmailMode[process.env.EMAIL_MODE?.toUpperCase() as keyof typeof EmailMode] || EmailMode.FAKE,
       mailslurpApiKey: process.env.EMAIL_MODE === 'mailslurp' ? process.env.MAILSLURP_API_KEY : undefined,
+      inboxPool: inboxLease,
       hardcodedEmails: process.env.EMAIL_MODE === 'hardcoded' ? {
         purchaser: process.env.HARDCODED_EMAIL!,
         recipient: process.env.HARDCODED_RECIPIENT_EMAIL
@@ -15,6 +18,8 @@ const test = base.extend<{ emailHandler: EmailHandler }>({
       isSandboxMode: process.env.STRIPE_SANDBOX === 'true'
     }, browser);
     await use(handler);
+    await handler.attachLintReports(testInfo);
+    await inboxLease?.release();
   }
 });
 import { HomePage } from '../../pages/HomePage';
@@ -48,9 +53,9 @@ test.describe('Input Validation & Sanitization', {
   let securityHelper: SecurityHelper;
   let testData: TestDataGenerator;
 
-  test.beforeEach(async ({ page }) => {
+  test.beforeEach(async ({ page }, testInfo) => {
     securityHelper = new SecurityHelper(page);
-    testData = new TestDataGenerator();
+    testData = new TestDataGenerator(testInfo);
   });
 
   /**
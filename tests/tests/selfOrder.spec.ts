@@ -12,8 +12,8 @@ test.describe('Self Order Flow', {
 }, () => {
   let testData: TestDataGenerator;
 
-  test.beforeEach(() => {
-    testData = new TestDataGenerator();
+  test.beforeEach(({}, testInfo) => {
+    testData = new TestDataGenerator(testInfo);
   });
 
   test('complete order with successful payment', {
@@ -0,0 +1,29 @@
+import { expect } from '@playwright/test';
+import { test } from '../fixtures/auth';
+import { QuestionsPage } from '../pages/QuestionsPage';
+import { SettingsPage } from '../pages/SettingsPage';
+import { TestFlowHelper } from '../helpers/TestFlowHelper';
+
+/**
+ * Logged In Session Tests
+ *
+ * Pages start logged in as the shared auth account through its saved
+ * magic-link session (see AuthSession), with no purchase. Needs a pooled
+ * account with a MailSlurp inbox (npm run accounts:refill with MAILSLURP_API_KEY).
+ * The account is shared by all workers, so these tests only read.
+ */
+test.describe('Logged In Session', {
+  tag: ['@Full', '@Auth']
+}, () => {
+  test('open the dashboard with the saved session', async ({ page, auth }) => {
+    await TestFlowHelper.openDashboard(page);
+
+    expect(await new QuestionsPage(page).getStoryAuthor()).toBe(`By ${auth.account.firstName} ${auth.account.lastName}`);
+  });
+
+  test('show the account email in settings', async ({ page, auth }) => {
+    await TestFlowHelper.openDashboard(page);
+
+    await new SettingsPage(page).verifyUserEmail(auth.account.email);
+  });
+});
@@ -0,0 +1,25 @@
+import { expect } from '@playwright/test';
+import { test } from '../fixtures/localEmail';
+import { TestDataGenerator } from '../helpers/TestDataGenerator';
+
+/**
+ * Test Data Tests
+ *
+ * TestDataGenerator seeds: the same seed gives the same users, with unique
+ * addresses, and the seed is annotated so a failed run can be replayed.
+ * Runs without a live app (local SMTP inboxes).
+ */
+test.describe('Test Data', {
+  tag: ['@Local']
+}, () => {
+  test('replay the same test users from a seed', async ({ emailHandler }, testInfo) => {
+    const first = await new TestDataGenerator(testInfo, 'replay-me').createTestUser(emailHandler, { isGiftFlow: true });
+    const replayed = await new TestDataGenerator(undefined, 'replay-me').createTestUser(emailHandler, { isGiftFlow: true });
+    const withoutEmail = ({ email, ...details }: { email: string }) => details;
+
+    expect(withoutEmail(replayed.storyteller)).toEqual(withoutEmail(first.storyteller));
+    expect(withoutEmail(replayed.giftGiver!)).toEqual(withoutEmail(first.giftGiver!));
+    expect(replayed.storyteller.email).not.toBe(first.storyteller.email);
+    expect(testInfo.annotations).toContainEqual({ type: 'test-data-seed', description: 'replay-me' });
+  });
+});
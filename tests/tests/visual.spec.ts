@@ -44,3 +44,24 @@ test.describe('Visual Regression Tests', {
     });
   });
 });
+
+test.describe('Email Visual Masking', {
+  tag: ['@Visual', '@Local']
+}, () => {
+  // Runs offline, so masking is checked even while every VISUAL_CONFIG.emails template is off
+  test('mask names, dates and tokens in email text only', () => {
+    const html = '<html><head><title>Jane Doe</title><style>.greeting { color: #333; }</style></head><body>' +
+      '<p class="greeting" data-name="Jane">Hi Jane Doe,</p>' +
+      '<p>Scheduled for March 5, 2025, answer by 2025-03-12</p>' +
+      '<a href="https://app.mystories.com/login?token=abc123def456ghi789">Or enter abc123def456ghi789</a>' +
+      '</body></html>';
+
+    const masked = new VisualTestHelper().maskEmailHtml(html, ['Jane', 'Jane Doe', ' ']);
+
+    expect(masked).toContain('<p class="greeting" data-name="Jane">Hi <span data-visual-mask>Name</span>,</p>');
+    expect(masked).toContain('<p>Scheduled for <span data-visual-mask>Date</span>, answer by <span data-visual-mask>Date</span></p>');
+    expect(masked).toContain('<a href="https://app.mystories.com/login?token=abc123def456ghi789">Or enter <span data-visual-mask>Token</span></a>');
+    // Head content is not rendered text
+    expect(masked).toContain('<title>Jane Doe</title><style>.greeting { color: #333; }</style>');
+  });
+});